@@ -37,11 +37,25 @@ import {
 
 // all libraries used in the analysis
 import { TSMT$LLSQ
-       , ILLSQResult     } from "../libs/llsq";
+       , ILLSQResult
+       , IFitBand        } from "../libs/llsq";
 import { IBagggedLinearFit
        , TSMT$Bllsq      } from "../libs/Bllsq";
 import { TSMT$Pllsq
        , IPolyLLSQResult } from "../libs/Pllsq";
+import { TSMT$Polynomial
+       , IPolyExtremum   } from "../libs/Polynomial";
+import { TSMT$Spline
+       , ISplineResult   } from "../libs/Spline";
+import { TSMT$Robust
+       , IRobustFit      } from "../libs/Robust";
+import { TSMT$Penalized
+       , IPenalizedFit
+       , IPenalizedPath  } from "../libs/Penalized";
+import { TSMT$Loess
+       , ILoessResult    } from "../libs/Loess";
+import { TSMT$PolyOrder
+       , IPolyOrderSelection } from "../libs/PolyOrder";
 
 // canvas selector
 import { CanvasSelectorDirective } from "./canvas-selector/canvas-selector.directive";
@@ -57,7 +71,22 @@ import { BehaviorSubject } from "rxjs/BehaviorSubject";
 import * as dl from 'deeplearn';
 
 // Model to be used in for training/evaluation
-import { DlModel } from "./dl-model/dlModel";
+import { DlModel
+       , IDlTrainingOptions  } from "./dl-model/dlModel";
+import { DlTrainingHandle
+       , IDlTrainingProgress
+       , IDlTrainingResult   } from "./dl-model/dlTrainingHandle";
+import { DlLoss              } from "./dl-model/dlLoss";
+import { DlOptimizer
+       , IDlOptimizerConfig  } from "./dl-model/dlOptimizer";
+import { DlNormalizer        } from "./dl-model/dlNormalizer";
+import { DlBasisModel        } from "./dl-model/dlBasisModel";
+import { DlMlp
+       , IDlMlpConfig        } from "./dl-model/dlMlp";
+import { DlModelIO
+       , IDlModelDocument    } from "./dl-model/dlModelIO";
+import { DlTrainingRunner    } from "./dl-model/dlTrainingRunner";
+import { DlRandom            } from "./dl-model/dlRandom";
 
 // and, we need some data
 import { MockData } from "./data/MockData";
@@ -80,6 +109,38 @@ export class AppComponent implements OnInit, AfterViewInit
   // map fit type to a nice string
   public fitName: Array<Object>;
 
+  // map polynomial order-selection criterion to a nice string
+  public orderCriterionName: Array<Object>;
+
+  // map least-squares band type and confidence level to a nice string
+  public bandName: Array<Object>;
+  public bandLevelName: Array<Object>;
+
+  // available polynomial orders for the robust fits (Theil-Sen is always linear)
+  public robustOrders: Array<number>;
+
+  // available spans (fraction of the data in each local fit) for the LOESS smoothers
+  public loessSpans: Array<number>;
+
+  // map DL loss function to a nice string
+  public lossName: Array<Object>;
+
+  // available degrees for the DL polynomial model
+  public dlDegrees: Array<number>;
+
+  // map DL model (polynomial, other basis, or neural network) to a nice string
+  public dlModelName: Array<Object>;
+
+  // map DL optimizer and learning-rate schedule to a nice string
+  public optimizerName: Array<Object>;
+  public scheduleName: Array<Object>;
+
+  // map DL input/output normalization to a nice string
+  public normalizationName: Array<Object>;
+
+  // map DL parameter initialization to a nice string
+  public initializerName: Array<Object>;
+
   // RMS error for a given fit
   public error$: Observable<number>;
   protected _errorSubject: BehaviorSubject<number>;
@@ -88,9 +149,23 @@ export class AppComponent implements OnInit, AfterViewInit
   public coef$: Observable< Array<number> >;
   protected _coefSubject: BehaviorSubject< Array<number> >;
 
+  // peaks and valleys of a polynomial LS fit over the data range
+  public extrema$: Observable<string>;
+  protected _extremaSubject: BehaviorSubject<string>;
+
   public dlCoefs: Array<number>;
   protected _dlVars: Array< dl.Variable<dl.Rank.R0> >;
 
+  // DL model type and the basis-function or MLP model (null for the polynomial model, which is trained from _dlVars)
+  protected _dlModelType: string;
+  protected _dlModel: DlBasisModel | DlMlp;
+  protected _mlpConfig: IDlMlpConfig;
+
+  // initialization of polynomial and basis-function weights (the network uses its own initialization) and the seed for
+  // initialization and shuffling; NaN chooses a new seed for every run, which is reported when training completes
+  protected _initializer: string;
+  protected _seed: number;
+
   // learning status text
   public dlStatus$: Observable<string>;
   protected _statusSubject: BehaviorSubject<string>;
@@ -104,10 +179,40 @@ export class AppComponent implements OnInit, AfterViewInit
   protected QUAD_LLSQ: string    = 'QUAD_LSQ';
   protected CUBIC_LLSQ: string   = 'CUBIC_LSQ';
   protected QUARTIC_LLSQ: string = 'QUARTIC_LSQ';
+  protected AUTO_LLSQ: string    = 'AUTO_LSQ';
+  protected SPLINE: string       = 'SPLINE';
+  protected SPLINE_GCV: string   = 'SPLINE_GCV';
+  protected HUBER: string        = 'HUBER_IRLS';
+  protected BISQUARE: string     = 'BISQUARE_IRLS';
+  protected THEIL_SEN: string    = 'THEIL_SEN';
+  protected RANSAC: string       = 'RANSAC';
+  protected RIDGE: string        = 'RIDGE';
+  protected LASSO: string        = 'LASSO';
+  protected ELASTIC_NET: string  = 'ELASTIC_NET';
+  protected LOESS: string        = 'LOESS';
+  protected LOWESS: string       = 'LOWESS';
+  protected MLP: string          = 'MLP';
 
   // fit type
   protected _fitType: string;
 
+  // order selection for the auto-order polynomial fit
+  protected MAX_ORDER: number = 6;
+  protected _orderCriterion: string;
+
+  // confidence (mean response) or prediction band drawn about the least-squares fit
+  protected BAND_NONE: string       = 'NONE';
+  protected BAND_CONFIDENCE: string = 'CONFIDENCE';
+  protected BAND_PREDICTION: string = 'PREDICTION';
+  protected _bandType: string;
+  protected _bandLevel: number;
+
+  // order of the robust polynomial fits
+  protected _robustOrder: number;
+
+  // span of the LOESS smoothers
+  protected _loessSpan: number;
+
   @ViewChild(CanvasSelectorDirective) _surface: CanvasSelectorDirective;
 
   // EaselJS
@@ -116,6 +221,7 @@ export class AppComponent implements OnInit, AfterViewInit
   protected _height: number;
   protected _points: createjs.Shape;
   protected _fit: createjs.Shape;
+  protected _band: createjs.Shape;
   protected _deep: createjs.Shape;
 
   // data to plot/fit
@@ -137,6 +243,9 @@ export class AppComponent implements OnInit, AfterViewInit
 
   // polynomial LS fit
   protected _polyFit: TSMT$Pllsq;
+  protected _spline: TSMT$Spline;
+  protected _penalized: TSMT$Penalized;
+  protected _loess: TSMT$Loess;
 
   // training and validation sets for DL
   protected _trainX: Array<number>;
@@ -144,9 +253,31 @@ export class AppComponent implements OnInit, AfterViewInit
   protected _validateX: Array<number>;
   protected _validateY: Array<number>;
 
-  // learning rate and optimizer
-  protected _learningRate: number;
-  protected _optimizer: dl.Optimizer;
+  // optimizer type, learning rate, and learning-rate schedule; each training run creates its own optimizer
+  protected _optimizerConfig: IDlOptimizerConfig;
+
+  // DL training is performed in normalized coordinates; coefficients are mapped back to data units
+  protected _normalization: string;
+  protected _normalizer: DlNormalizer;
+
+  // epochs, batch size, and shuffling for DL training
+  protected _trainingOptions: IDlTrainingOptions;
+
+  // DL training runs in a Web Worker when available, and the handle to the run in progress, along with its latest
+  // progress and result (saved with the model)
+  protected _runner: DlTrainingRunner;
+  protected _training: DlTrainingHandle;
+  protected _lastProgress: IDlTrainingProgress;
+  protected _lastResult: IDlTrainingResult;
+
+  // DL loss function and Huber threshold
+  protected _lossType: string;
+  protected _huberDelta: number;
+
+  // DL polynomial degree and L1/L2 coefficient penalties
+  public dlDegree: number;
+  protected _l1: number;
+  protected _l2: number;
 
   constructor(protected _cd: ChangeDetectorRef)
   {
@@ -166,20 +297,168 @@ export class AppComponent implements OnInit, AfterViewInit
       {name: 'LLSQ_SUB_BAG', label: 'Linear Least Squares Sub-bagged'},
       {name: 'QUAD_LSQ', label: 'Quadratic Least Squares'},
       {name: 'CUBIC_LSQ', label: 'Cubic Least Squares'},
-      {name: 'QUARTIC_LSQ', label: 'Quartic Least Squares'}
+      {name: 'QUARTIC_LSQ', label: 'Quartic Least Squares'},
+      {name: 'AUTO_LSQ', label: 'Auto Order Least Squares'},
+      {name: 'SPLINE', label: 'Natural Cubic Spline'},
+      {name: 'SPLINE_GCV', label: 'Smoothing Spline (GCV)'},
+      {name: 'HUBER_IRLS', label: 'Robust IRLS (Huber)'},
+      {name: 'BISQUARE_IRLS', label: 'Robust IRLS (Bisquare)'},
+      {name: 'THEIL_SEN', label: 'Theil-Sen Line'},
+      {name: 'RANSAC', label: 'RANSAC'},
+      {name: 'RIDGE', label: 'Ridge (CV, DL Degree)'},
+      {name: 'LASSO', label: 'Lasso (CV, DL Degree)'},
+      {name: 'ELASTIC_NET', label: 'Elastic Net (CV, DL Degree)'},
+      {name: 'LOESS', label: 'LOESS (Local Quadratic)'},
+      {name: 'LOWESS', label: 'LOWESS (Robust Local Linear)'}
     ];
 
     this._fitType = this.LLSQ;
 
+    this.orderCriterionName = [
+      {name: TSMT$PolyOrder.BIC, label: 'BIC'},
+      {name: TSMT$PolyOrder.AIC, label: 'AIC'},
+      {name: TSMT$PolyOrder.ADJ_R2, label: 'Adjusted R-Squared'},
+      {name: TSMT$PolyOrder.CV, label: '5-Fold Cross-Validation'}
+    ];
+
+    this._orderCriterion = TSMT$PolyOrder.BIC;
+
+    this.bandName = [
+      {name: this.BAND_NONE, label: 'None'},
+      {name: this.BAND_CONFIDENCE, label: 'Confidence'},
+      {name: this.BAND_PREDICTION, label: 'Prediction'}
+    ];
+
+    this.bandLevelName = [
+      {name: 0.90, label: '90%'},
+      {name: 0.95, label: '95%'},
+      {name: 0.99, label: '99%'}
+    ];
+
+    this._bandType  = this.BAND_NONE;
+    this._bandLevel = 0.95;
+
+    this.robustOrders = [1, 2, 3, 4];
+    this._robustOrder = 3;
+
+    this.loessSpans = [0.25, 0.5, 0.75, 1.0];
+    this._loessSpan = 0.5;
+
+    this.lossName = [
+      {name: DlLoss.MSE, label: 'Squared Error (MSE)'},
+      {name: DlLoss.MAE, label: 'Absolute Error (MAE)'},
+      {name: DlLoss.HUBER, label: 'Huber'},
+      {name: DlLoss.LOG_COSH, label: 'Log-Cosh'},
+      {name: DlLoss.WEIGHTED_MSE, label: 'Weighted Squared Error'}
+    ];
+
+    this._lossType   = DlLoss.MSE;
+    this._huberDelta = 1.0;
+
+    // cubic model by default - oscillations can get worse if you go higher, which is what the penalties are for
+    this.dlDegrees = [1, 2, 3, 4, 5, 6];
+    this.dlDegree  = 3;
+    this._l1       = 0;
+    this._l2       = 0;
+
+    // the monomial basis is the original polynomial model, whose coefficients are reported in data units
+    this.dlModelName = [
+      {name: DlBasisModel.MONOMIAL, label: 'Polynomial'},
+      {name: DlBasisModel.CHEBYSHEV, label: 'Chebyshev'},
+      {name: DlBasisModel.LEGENDRE, label: 'Legendre'},
+      {name: DlBasisModel.FOURIER, label: 'Fourier'},
+      {name: DlBasisModel.RBF, label: 'Gaussian RBF'},
+      {name: DlBasisModel.SIGMOID, label: 'Sigmoid'},
+      {name: this.MLP, label: 'Neural Network (MLP)'}
+    ];
+
+    this._dlModelType = DlBasisModel.MONOMIAL;
+    this._dlModel     = null;
+
+    // the degree selection does not apply to the network
+    this._mlpConfig = {
+      hidden: [10, 10],
+      activation: DlMlp.TANH,
+      init: DlMlp.INIT_XAVIER
+    };
+
+    this.initializerName = [
+      {name: DlRandom.UNIFORM, label: 'Uniform'},
+      {name: DlRandom.NORMAL, label: 'Normal'},
+      {name: DlRandom.XAVIER, label: 'Xavier'},
+      {name: DlRandom.ZEROS, label: 'Zeros'}
+    ];
+
+    this._initializer = DlRandom.UNIFORM;
+    this._seed        = NaN;
+
     this._trainX    = new Array<number>();
     this._trainY    = new Array<number>();
     this._validateX = new Array<number>();
     this._validateY = new Array<number>();
 
-    this._polyFit = new TSMT$Pllsq();
+    // the QR solver keeps higher-order (auto-order) fits to the Canvas-coordinate data well conditioned
+    this._polyFit        = new TSMT$Pllsq();
+    this._polyFit.solver = TSMT$Pllsq.QR;
+    this._spline         = new TSMT$Spline();
+    this._penalized      = new TSMT$Penalized();
+    this._loess          = new TSMT$Loess();
+
+    this.optimizerName = [
+      {name: DlOptimizer.RMSPROP, label: 'RMSProp'},
+      {name: DlOptimizer.ADAM, label: 'Adam'},
+      {name: DlOptimizer.ADAGRAD, label: 'Adagrad'},
+      {name: DlOptimizer.MOMENTUM, label: 'Momentum'},
+      {name: DlOptimizer.SGD, label: 'SGD'}
+    ];
+
+    this.scheduleName = [
+      {name: DlOptimizer.SCHEDULE_CONSTANT, label: 'Constant'},
+      {name: DlOptimizer.SCHEDULE_STEP, label: 'Step Decay'},
+      {name: DlOptimizer.SCHEDULE_EXPONENTIAL, label: 'Exponential Decay'},
+      {name: DlOptimizer.SCHEDULE_COSINE, label: 'Cosine'}
+    ];
+
+    this.normalizationName = [
+      {name: DlNormalizer.STANDARDIZE, label: 'Standardize'},
+      {name: DlNormalizer.MIN_MAX, label: 'Min-Max'},
+      {name: DlNormalizer.NONE, label: 'None'}
+    ];
+
+    this._normalization = DlNormalizer.STANDARDIZE;
+    this._normalizer    = null;
+
+    this._optimizerConfig = {
+      type: DlOptimizer.RMSPROP,
+      learningRate: 0.005,
+      momentum: 0.9,
+      schedule: {
+        type: DlOptimizer.SCHEDULE_CONSTANT,
+        stepSize: 50,
+        gamma: 0.5,
+        warmupEpochs: 0
+      }
+    };
+
+    // mini-batches of four points converge about as well as one step per point, at a fraction of the cost; the epoch
+    // count is only an upper bound since training stops once the loss stalls
+    this._trainingOptions = {
+      numEpochs: 500,
+      batchSize: 4,
+      shuffle: true,
+      validateX: this._validateX,
+      validateY: this._validateY,
+      earlyStopping: {
+        patience: 25,
+        minDelta: 0.001,
+        restoreBestWeights: true
+      }
+    };
 
-    this._learningRate = 0.005;
-    this._optimizer    = dl.train.rmsprop(this._learningRate);
+    this._runner       = new DlTrainingRunner('assets/workers/dl-training.worker.js');
+    this._training     = null;
+    this._lastProgress = null;
+    this._lastResult   = null;
 
     this._statusSubject = new BehaviorSubject<string>('DeepLearn training in progress ...');
     this.dlStatus$      = this._statusSubject.asObservable();
@@ -189,6 +468,79 @@ export class AppComponent implements OnInit, AfterViewInit
 
     this._coefSubject = new BehaviorSubject( new Array<number>() );
     this.coef$        = this._coefSubject.asObservable();
+
+    this._extremaSubject = new BehaviorSubject<string>('');
+    this.extrema$        = this._extremaSubject.asObservable();
+  }
+
+  /**
+   * Access the order of the robust polynomial fits
+   *
+   * @returns {number}
+   */
+  public get robustOrder(): number
+  {
+    return this._robustOrder;
+  }
+
+  /**
+   * Access the span of the LOESS smoothers
+   *
+   * @returns {number}
+   */
+  public get loessSpan(): number
+  {
+    return this._loessSpan;
+  }
+
+  /**
+   * Access the confidence level of the least-squares band
+   *
+   * @returns {number}
+   */
+  public get bandLevel(): number
+  {
+    return this._bandLevel;
+  }
+
+  /**
+   * Access the selected DL model type
+   *
+   * @returns {string}
+   */
+  public get dlModelType(): string
+  {
+    return this._dlModelType;
+  }
+
+  /**
+   * Access the selected DL optimizer type
+   *
+   * @returns {string}
+   */
+  public get optimizerType(): string
+  {
+    return this._optimizerConfig.type;
+  }
+
+  /**
+   * Access the selected DL normalization method
+   *
+   * @returns {string}
+   */
+  public get normalization(): string
+  {
+    return this._normalization;
+  }
+
+  /**
+   * Access the selected DL parameter initializer
+   *
+   * @returns {string}
+   */
+  public get initializer(): string
+  {
+    return this._initializer;
   }
 
   /**
@@ -198,17 +550,9 @@ export class AppComponent implements OnInit, AfterViewInit
    */
   public ngOnInit(): void
   {
-    // initialize the deep-learning model parameters to pseudo-random data; number of array elements controls the
-    // degree of polynomial; no real reason to put this in the on-init handler other than it makes it very easy
-    // to locate and change
-
-    // cubic model - oscillations can get worse if you go higher
-    this._dlVars = [
-      dl.variable(dl.Scalar.new(Math.random())),
-      dl.variable(dl.Scalar.new(Math.random())),
-      dl.variable(dl.Scalar.new(Math.random())),
-      dl.variable(dl.Scalar.new(Math.random()))
-    ];
+    // initialize the deep-learning model parameters; no real reason to put this in the on-init handler other than it
+    // makes it very easy to locate and change.  Enter the seed reported at the end of a run to replay that run exactly.
+    this.__initModel();
   }
 
   /**
@@ -238,7 +582,7 @@ export class AppComponent implements OnInit, AfterViewInit
       this.__plotPoints();
 
       // begin training the DL model
-      DlModel.train(this._trainX, this._trainY, this._optimizer, this._dlVars, 100, () => {this.__onTrainingComplete()});
+      this.__train();
 
       // initialize the graph with a 'textbook' linear least squares fit
       this.fit(this.LLSQ);
@@ -248,14 +592,225 @@ export class AppComponent implements OnInit, AfterViewInit
     }
   }
 
+  // (re)initialize the deep-learning model parameters to pseudo-random data; number of array elements controls the
+  // degree of polynomial (or the number of basis functions beyond the constant).  The same seed drives initialization
+  // and shuffling, so that the run can be replayed.
+  protected __initModel(): void
+  {
+    const random: DlRandom = new DlRandom(this._seed);
+    const n: number        = this.dlDegree + 1;
+
+    this._trainingOptions.seed = random.seed;
+
+    if (this._dlVars) {
+      this._dlVars.forEach( (v: dl.Variable<dl.Rank.R0>): void => {v.dispose()} );
+    }
+
+    if (this._dlModel) {
+      this._dlModel.dispose();
+    }
+
+    this._dlVars = new Array< dl.Variable<dl.Rank.R0> >();
+
+    switch (this._dlModelType)
+    {
+      case DlBasisModel.MONOMIAL:
+        this._dlModel = null;
+      break;
+
+      case this.MLP:
+        this._dlModel = new DlMlp(this._mlpConfig, random);
+      break;
+
+      default:
+        this._dlModel = new DlBasisModel(this._dlModelType, n, random.values(this._initializer, n));
+    }
+
+    if (this._dlModel) {
+      return;
+    }
+
+    random.values(this._initializer, n).forEach( (value: number): void => {
+      this._dlVars.push( dl.variable(dl.Scalar.new(value)) );
+    });
+  }
+
+  // describe the current DL model as a versioned document
+  protected __modelDocument(): IDlModelDocument
+  {
+    const normalizer: DlNormalizer      = this._normalizer || new DlNormalizer(DlNormalizer.NONE);
+    const result: IDlTrainingResult     = this._lastResult;
+    const progress: IDlTrainingProgress = this._lastProgress;
+
+    return {
+      format: DlModelIO.FORMAT,
+      version: DlModelIO.VERSION,
+      created: new Date().toISOString(),
+      model: DlModelIO.spec(this._dlModel || this._dlVars),
+      params: DlModelIO.tensors(this._dlModel ? this._dlModel.params : this._dlVars),
+      coefs: this.dlCoefs ? this.dlCoefs.slice() : [],
+      normalization: {method: normalizer.method, x: normalizer.xScaling, y: normalizer.yScaling},
+      optimizer: JSON.parse( JSON.stringify(this._optimizerConfig) ),
+      metrics: result ? {
+        stopReason: result.stopReason,
+        epochs: result.epochs,
+        bestEpoch: result.bestEpoch,
+        bestLoss: result.bestLoss,
+        seed: result.seed,
+        trainingLoss: progress ? progress.trainingLoss : NaN,
+        validationLoss: progress ? progress.validationLoss : NaN
+      } : null,
+      dataset: {hash: DlModelIO.hash(this._trainX, this._trainY), count: this._trainX.length}
+    };
+  }
+
+  // replace the current DL model with a saved one and redraw; any training in progress is cancelled
+  protected __restoreModel(doc: IDlModelDocument): void
+  {
+    const model: Array< dl.Variable<dl.Rank.R0> > | DlBasisModel | DlMlp = DlModelIO.createModel(doc.model, doc.params);
+
+    if (!model)
+    {
+      this._statusSubject.next('DL model file does not match its model architecture.');
+      return;
+    }
+
+    if (this._training)
+    {
+      this._training.cancel();
+      this._training = null;
+    }
+
+    if (this._dlVars) {
+      this._dlVars.forEach( (v: dl.Variable<dl.Rank.R0>): void => {v.dispose()} );
+    }
+
+    if (this._dlModel) {
+      this._dlModel.dispose();
+    }
+
+    this._dlVars  = Array.isArray(model) ? model : new Array< dl.Variable<dl.Rank.R0> >();
+    this._dlModel = Array.isArray(model) ? null : model;
+
+    // the degree selection does not apply to the network
+    if (model instanceof DlBasisModel)
+    {
+      this._dlModelType = model.basis;
+      this.dlDegree     = doc.model.degree;
+    }
+    else if (model instanceof DlMlp)
+    {
+      this._dlModelType = this.MLP;
+      this._mlpConfig   = model.config;
+    }
+    else
+    {
+      this._dlModelType = DlBasisModel.MONOMIAL;
+      this.dlDegree     = doc.model.degree;
+    }
+
+    this._normalization = doc.normalization.method;
+    this._normalizer    = new DlNormalizer(this._normalization);
+    this._normalizer.setScaling(doc.normalization.x, doc.normalization.y);
+
+    // the saved settings are merged over the current ones, since a document may omit optional settings such as the schedule
+    if (doc.optimizer)
+    {
+      this._optimizerConfig = Object.assign({}, this._optimizerConfig, doc.optimizer, {
+        schedule: Object.assign({}, this._optimizerConfig.schedule, doc.optimizer.schedule)
+      });
+    }
+
+    this.dlCoefs = doc.coefs.slice();
+
+    this.__drawDlModel();
+
+    const epochs: string = doc.metrics ? ' (' + doc.metrics.epochs + ' epochs)' : '';
+    const match: boolean = !!doc.dataset && doc.dataset.hash == DlModelIO.hash(this._trainX, this._trainY);
+
+    this._statusSubject.next( 'Loaded DL model' + epochs + (match ? '.' : ', trained on a different data set.') );
+
+    this._cd.markForCheck();
+  }
+
+  // start over with a fresh set of DL coefficients
+  protected __retrain(): void
+  {
+    this.__initModel();
+    this.__train();
+  }
+
+  // begin a DL training run with the current loss selection, cancelling any run in progress
+  protected __train(): void
+  {
+    if (this._training) {
+      this._training.cancel();
+    }
+
+    this._trainingOptions.loss = {
+      name: this._lossType,
+      delta: this._huberDelta,
+      weights: this._lossType == DlLoss.WEIGHTED_MSE ? this.__sampleWeights() : undefined
+    };
+
+    this._normalizer                 = new DlNormalizer(this._normalization);
+    this._trainingOptions.normalizer = this._normalizer;
+
+    // the constant term is not penalized
+    this._trainingOptions.regularization = {
+      l1: this._l1,
+      l2: this._l2,
+      weights: this._dlModel
+        ? this._dlModel.penaltyWeights
+        : this._dlVars.map( (v: dl.Variable<dl.Rank.R0>, i: number): number => {return i == 0 ? 0 : 1} )
+    };
+
+    // callbacks from a superseded run are ignored
+    const training: DlTrainingHandle = this._runner.train(this._trainX, this._trainY, this._optimizerConfig,
+      this._dlModel || this._dlVars, this._trainingOptions, (result: IDlTrainingResult) => {
+        if (training === this._training) {
+          this.__onTrainingComplete(result);
+        }
+      });
+
+    training.progress$.subscribe( (progress: IDlTrainingProgress) => {
+      if (training === this._training) {
+        this.__onTrainingProgress(progress);
+      }
+    });
+
+    this._training     = training;
+    this._lastProgress = null;
+    this._lastResult   = null;
+
+    this._deep.graphics.clear();
+    this._stage.update();
+
+    this._statusSubject.next('DeepLearn training in progress ...');
+  }
+
+  // per-sample weights for weighted-MSE training; points far from the linear least-squares trend are down-weighted
+  // (Cauchy weights, scaled by the RMS residual), which reduces the pull of outliers in DATASET_2
+  protected __sampleWeights(): Array<number>
+  {
+    const fit: ILLSQResult   = TSMT$LLSQ.fit(this._trainX, this._trainY);
+    const r: Array<number>   = this._trainX.map( (x: number, i: number): number => {return this._trainY[i] - fit.a*x - fit.b} );
+    const rms: number        = Math.sqrt( r.reduce( (s: number, v: number): number => {return s + v*v}, 0 ) / r.length );
+    const scale: number      = rms > 0 ? 2.0*rms : 1.0;
+
+    return r.map( (v: number): number => {return 1.0 / (1.0 + (v/scale)*(v/scale))} );
+  }
+
   // setup EaselJS environment
   protected __easelJSSetup()
   {
     this._points = new createjs.Shape();
+    this._band   = new createjs.Shape();
     this._fit    = new createjs.Shape();
     this._deep   = new createjs.Shape();
 
     this._stage.addChild(this._points);
+    this._stage.addChild(this._band);
     this._stage.addChild(this._fit);
     this._stage.addChild(this._deep);
   }
@@ -274,7 +829,14 @@ export class AppComponent implements OnInit, AfterViewInit
     let g: createjs.Graphics = this._fit.graphics;
     g.clear();
 
+    this._fitType = type;
+
     let x1: number, y1: number, x2: number, y2: number;
+    let robust: IRobustFit;
+    let inliers: Array<boolean>;
+    let alpha: number;
+    let path: IPenalizedPath;
+    let penalized: IPenalizedFit;
 
     switch (type)
     {
@@ -355,124 +917,712 @@ export class AppComponent implements OnInit, AfterViewInit
 
         this._coefSubject.next( quarticFit.coef.slice() );
       break;
-    }
 
-    this._stage.update();
-  }
+      case this.AUTO_LLSQ:
+        let selection: IPolyOrderSelection = TSMT$PolyOrder.select(this._x, this._y, this.MAX_ORDER, this._orderCriterion);
+        let autoFit: IPolyLLSQResult       = this._polyFit.fit(this._x, this._y, selection.order);
 
-  // copy the original data and break out into training/validation sets; the latter is open for experimentation
-  protected __getTraining(): void
-  {
-    this._xOrig = this._x.slice();
-    this._yOrig = this._y.slice();
+        this.__drawFitCurve(g, this._x[0], this._x[this._x.length-1], '#0000ff');
 
-    // uncomment to use every other point, for example
-    // const n: number = this._xOrig.length;
-    // let i: number;
-    //
-    // for (i = 0; i < n; i+=2)
-    // {
-    //   this._trainX.push(this._xOrig[i]);
-    //   this._trainY.push(this._yOrig[i]);
-    //
-    //   this._validateX.push(this._xOrig[i+1]);
-    //   this._validateY.push(this._yOrig[i+1]);
-    // }
-    //
-    // // any leftover gets placed into the training set
-    // if (i+1 < n-1)
-    // {
-    //   this._trainX.push(this._xOrig[n-1]);
-    //   this._trainY.push(this._yOrig[n-1]);
-    // }
+        this.__getError(autoFit);
 
-    this._trainX = this._x.slice();
-    this._trainY = this._y.slice();
-  }
+        this._coefSubject.next( autoFit.coef.slice() );
+      break;
 
-  // compute the RMS error for a given fit
-  protected __getError(fit: Object): void
-  {
-    let err: number = 0;
-    const n: number = this._x.length;
-    let i: number, y: number, d: number;
+      case this.SPLINE:
+        let spline: ISplineResult = this._spline.interpolate(this._x, this._y);
 
-    if (this.__isLLSQ(fit) || this.__isBLLSQ(fit))
-    {
-      for (i = 0; i < n; ++i)
-      {
-        y = fit.a*this._x[i] + fit.b;
-        d = y - this._y[i];
+        this.__drawFitCurve(g, this._x[0], this._x[this._x.length-1], '#0000ff', this._spline);
 
-        err += d*d;
-      }
+        this.__getError(spline);
 
-      this._errorSubject.next( Math.sqrt(err/n) );
-    }
-    else if (this.__isPLLSQ(fit))
-    {
-      this._errorSubject.next( fit.rms );
-    }
-    else
-    {
-      // who put an extra fit in here?  Homey don't play that!
-      console.log( "Invalid fit: ", fit );
-    }
-  }
+        this._coefSubject.next( new Array<number>() );
+      break;
 
-  // type guard for ILLSQResult
-  protected __isLLSQ(fit: Object): fit is ILLSQResult
-  {
-    return fit.hasOwnProperty('chi2');
-  }
+      case this.SPLINE_GCV:
+        let smooth: ISplineResult = this._spline.smooth(this._x, this._y);
 
-  // type guard for IBaggedLinearFit
-  protected __isBLLSQ(fit: Object): fit is IBagggedLinearFit
-  {
-    return fit.hasOwnProperty('fits');
-  }
+        this.__drawFitCurve(g, this._x[0], this._x[this._x.length-1], '#0000ff', this._spline);
 
-  // type guard for IPolyLLSQResult
-  protected __isPLLSQ(fit: Object): fit is IPolyLLSQResult
-  {
-    return fit.hasOwnProperty('coef');
-  }
+        this.__getError(smooth);
 
-  // draw a fit line into the supplied graphic context
-  protected __drawFitLine(g: createjs.Graphics, x1: number, y1: number, x2: number, y2: number, color: string): void
-  {
-    g.setStrokeStyle(2);
-    g.beginStroke(color);
-    g.moveTo(x1, y1);
-    g.lineTo(x2, y2);
-    g.endStroke();
-  }
+        this._coefSubject.next( new Array<number>() );
+      break;
 
-  // draw a fit curve into the supplied graphic context
-  protected __drawFitCurve(g: createjs.Graphics, xMin: number, xMax: number, color: string): void
-  {
-    g.setStrokeStyle(2);
-    g.beginStroke(color);
+      case this.HUBER:
+      case this.BISQUARE:
+      case this.THEIL_SEN:
+      case this.RANSAC:
+        robust = type == this.THEIL_SEN ? TSMT$Robust.theilSen(this._x, this._y)
+               : type == this.RANSAC ? TSMT$Robust.ransac(this._x, this._y, this._robustOrder)
+               : TSMT$Robust.irls(this._x, this._y, this._robustOrder, type == this.HUBER ? TSMT$Robust.HUBER : TSMT$Robust.BISQUARE);
 
-    let y: number = this._polyFit.eval(xMin);
-    g.moveTo(xMin, y);
+        this.__drawFitCurve(g, this._x[0], this._x[this._x.length-1], '#0000ff', robust.polynomial);
 
-    let delta: number = 3;
-    let x: number     = xMin + delta;
+        this.__getError(robust);
 
-    while (x < xMax)
-    {
-      y = this._polyFit.eval(x);
-      g.lineTo(x, y);
+        this._coefSubject.next( robust.coef.slice() );
+
+        inliers = robust.inliers;
+      break;
+
+      // penalized fits have the same degree as the DL polynomial, for comparison with its L1/L2 penalties
+      case this.RIDGE:
+      case this.LASSO:
+      case this.ELASTIC_NET:
+        alpha     = type == this.RIDGE ? 0 : (type == this.LASSO ? 1 : 0.5);
+        path      = this._penalized.path(this._x, this._y, this.dlDegree, alpha);
+        penalized = path.best >= 0 ? path.fits[path.best] : null;
+
+        if (!penalized) {
+          break;
+        }
+
+        this.__drawFitCurve(g, this._x[0], this._x[this._x.length-1], '#0000ff', this._penalized.polynomial);
+
+        this.__getError(penalized);
+
+        this._coefSubject.next( penalized.coef.slice() );
+      break;
+
+      // LOWESS is Cleveland's original smoother: locally linear with three robustness iterations
+      case this.LOESS:
+      case this.LOWESS:
+        let loess: ILoessResult = type == this.LOESS
+          ? this._loess.fit(this._x, this._y, this._loessSpan, 2)
+          : this._loess.fit(this._x, this._y, this._loessSpan, 1, 3);
+
+        this.__drawFitCurve(g, this._x[0], this._x[this._x.length-1], '#0000ff', this._loess);
+
+        this.__getError(loess);
+
+        this._coefSubject.next( new Array<number>() );
+
+        inliers = loess.weights.map( (w: number): boolean => {return w > 0} );
+      break;
+    }
+
+    // points rejected by a robust fit (or given zero weight by a robust smoother) are highlighted
+    this.__plotPoints(inliers);
+
+    this.__drawBand(type);
+    this.__reportExtrema(type);
+
+    this._stage.update();
+  }
+
+  /**
+   * Set the order of the robust polynomial fits and redraw the current fit if it is robust
+   *
+   * @param {string} value Polynomial order
+   *
+   * @returns {nothing}
+   */
+  public setRobustOrder(value: string): void
+  {
+    const order: number = parseInt(value);
+
+    if (isNaN(order) || order < 1) {
+      return;
+    }
+
+    this._robustOrder = order;
+
+    if (this._stage && (this._fitType == this.HUBER || this._fitType == this.BISQUARE || this._fitType == this.RANSAC)) {
+      this.fit(this._fitType);
+    }
+  }
+
+  /**
+   * Set the span of the LOESS smoothers and redraw the current fit if it is a LOESS smooth
+   *
+   * @param {string} value Fraction of the data in each local fit
+   *
+   * @returns {nothing}
+   */
+  public setLoessSpan(value: string): void
+  {
+    const span: number = parseFloat(value);
+
+    if (isNaN(span) || span <= 0 || span > 1) {
+      return;
+    }
+
+    this._loessSpan = span;
+
+    if (this._stage && (this._fitType == this.LOESS || this._fitType == this.LOWESS)) {
+      this.fit(this._fitType);
+    }
+  }
+
+  /**
+   * Select the band drawn about the least-squares fit and redraw the current fit
+   *
+   * @param {string} type 'NONE', 'CONFIDENCE' (mean response), or 'PREDICTION' (new observations)
+   *
+   * @returns {nothing}
+   */
+  public setBand(type: string): void
+  {
+    this._bandType = type;
+
+    if (this._stage) {
+      this.fit(this._fitType);
+    }
+  }
+
+  /**
+   * Set the confidence level of the least-squares band and redraw the current fit
+   *
+   * @param {string} value Confidence level, i.e. 0.95
+   *
+   * @returns {nothing}
+   */
+  public setBandLevel(value: string): void
+  {
+    const level: number = parseFloat(value);
+
+    if (isNaN(level) || level <= 0 || level >= 1) {
+      return;
+    }
+
+    this._bandLevel = level;
+
+    if (this._stage) {
+      this.fit(this._fitType);
+    }
+  }
+
+  /**
+   * Select the criterion used to choose the order of the auto-order polynomial fit, and refit if that fit is displayed
+   *
+   * @param {string} name Criterion name (one of the TSMT$PolyOrder constants)
+   *
+   * @returns {nothing}
+   */
+  public setOrderCriterion(name: string): void
+  {
+    this._orderCriterion = name;
+
+    if (this._stage && this._fitType == this.AUTO_LLSQ) {
+      this.fit(this._fitType);
+    }
+  }
+
+  /**
+   * Select the DL loss function and retrain the model from a fresh set of coefficients
+   *
+   * @param {string} name Loss name (one of the DlLoss constants)
+   *
+   * @returns {nothing}
+   */
+  public setLoss(name: string): void
+  {
+    if (!DlLoss.has(name) || !this._stage) {
+      return;
+    }
+
+    this._lossType = name;
+
+    this.__retrain();
+  }
+
+  /**
+   * Select the degree of the DL polynomial model and retrain
+   *
+   * @param {string} value Polynomial degree
+   *
+   * @returns {nothing}
+   */
+  public setDegree(value: string): void
+  {
+    const degree: number = parseInt(value, 10);
+
+    if (isNaN(degree) || degree < 1 || !this._stage) {
+      return;
+    }
+
+    this.dlDegree = degree;
+
+    // penalized LS fits track the DL degree
+    if (this._fitType == this.RIDGE || this._fitType == this.LASSO || this._fitType == this.ELASTIC_NET) {
+      this.fit(this._fitType);
+    }
+
+    this.__retrain();
+  }
+
+  /**
+   * Select the DL model and retrain; the degree selection sets the number of basis functions beyond the constant
+   *
+   * @param {string} type Basis type (one of the DlBasisModel constants) or 'MLP' for the neural network
+   *
+   * @returns {nothing}
+   */
+  public setDlModel(type: string): void
+  {
+    if (!this._stage) {
+      return;
+    }
+
+    this._dlModelType = type;
+
+    this.__retrain();
+  }
+
+  /**
+   * Set the strength of a DL coefficient penalty and retrain; use both for elastic net
+   *
+   * @param {string} type 'l1' (lasso) or 'l2' (ridge)
+   *
+   * @param {string} value Penalty strength (zero disables the penalty)
+   *
+   * @returns {nothing}
+   */
+  public setPenalty(type: string, value: string): void
+  {
+    const strength: number = parseFloat(value);
+
+    if (isNaN(strength) || strength < 0 || !this._stage) {
+      return;
+    }
+
+    if (type == 'l1') {
+      this._l1 = strength;
+    }
+    else {
+      this._l2 = strength;
+    }
+
+    this.__retrain();
+  }
+
+  /**
+   * Select the DL optimizer and retrain
+   *
+   * @param {string} type Optimizer type (one of the DlOptimizer constants)
+   *
+   * @returns {nothing}
+   */
+  public setOptimizer(type: string): void
+  {
+    if (!this._stage) {
+      return;
+    }
+
+    this._optimizerConfig.type = type;
+
+    this.__retrain();
+  }
+
+  /**
+   * Set the base DL learning rate and retrain
+   *
+   * @param {string} value Learning rate
+   *
+   * @returns {nothing}
+   */
+  public setLearningRate(value: string): void
+  {
+    const rate: number = parseFloat(value);
+
+    if (isNaN(rate) || rate <= 0 || !this._stage) {
+      return;
+    }
+
+    this._optimizerConfig.learningRate = rate;
+
+    this.__retrain();
+  }
+
+  /**
+   * Select the DL learning-rate schedule and retrain; the cosine schedule is given a short warm-up
+   *
+   * @param {string} type Schedule type (one of the DlOptimizer.SCHEDULE_XXX constants)
+   *
+   * @returns {nothing}
+   */
+  public setSchedule(type: string): void
+  {
+    if (!this._stage) {
+      return;
+    }
+
+    this._optimizerConfig.schedule.type         = type;
+    this._optimizerConfig.schedule.warmupEpochs = type == DlOptimizer.SCHEDULE_COSINE ? 10 : 0;
+
+    this.__retrain();
+  }
+
+  /**
+   * Select the DL input/output normalization and retrain
+   *
+   * @param {string} method Normalization method (one of the DlNormalizer constants)
+   *
+   * @returns {nothing}
+   */
+  public setNormalization(method: string): void
+  {
+    if (!this._stage) {
+      return;
+    }
+
+    this._normalization = method;
+
+    this.__retrain();
+  }
+
+  /**
+   * Select the initialization of the DL polynomial or basis-function weights and retrain
+   *
+   * @param {string} method Initializer (one of the DlRandom.ZEROS, UNIFORM, NORMAL, or XAVIER constants)
+   *
+   * @returns {nothing}
+   */
+  public setInitializer(method: string): void
+  {
+    if (!this._stage) {
+      return;
+    }
+
+    this._initializer = method;
+
+    this.__retrain();
+  }
+
+  /**
+   * Set the seed for DL initialization and shuffling and retrain
+   *
+   * @param {string} value Seed, a positive integer; a blank (or invalid) seed chooses a new seed for every run
+   *
+   * @returns {nothing}
+   */
+  public setSeed(value: string): void
+  {
+    if (!this._stage) {
+      return;
+    }
+
+    const seed: number = parseInt(value, 10);
+
+    this._seed = DlRandom.isSeed(seed) ? seed : NaN;
+
+    this.__retrain();
+  }
+
+  /**
+   * Save the current DL model, its normalization, optimizer configuration, and training metrics to a JSON file
+   *
+   * @returns {nothing}
+   */
+  public saveModel(): void
+  {
+    if (!this._stage) {
+      return;
+    }
+
+    const blob: Blob              = new Blob([DlModelIO.stringify( this.__modelDocument() )], {type: 'application/json'});
+    const url: string             = URL.createObjectURL(blob);
+    const link: HTMLAnchorElement = document.createElement('a');
+
+    link.href     = url;
+    link.download = 'dl-model.json';
+    link.click();
+
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Load a DL model from a JSON file (previously created by saveModel) and draw it without retraining
+   *
+   * @param {FileList} files Selected file(s); only the first is used
+   *
+   * @returns {nothing}
+   */
+  public loadModel(files: FileList): void
+  {
+    if (!files || files.length == 0 || !this._stage) {
+      return;
+    }
+
+    const reader: FileReader = new FileReader();
+
+    reader.onload = () => {
+      const doc: IDlModelDocument = DlModelIO.parse(reader.result);
+
+      if (doc) {
+        this.__restoreModel(doc);
+      }
+      else {
+        this._statusSubject.next('Invalid DL model file.');
+      }
+    };
+
+    reader.readAsText(files[0]);
+  }
+
+  /**
+   * Cancel DL training; the curve is drawn with the coefficients at the time of cancellation
+   *
+   * @returns {nothing}
+   */
+  public cancelTraining(): void
+  {
+    if (this._training) {
+      this._training.cancel();
+    }
+  }
+
+  /**
+   * Pause or resume DL training
+   *
+   * @returns {nothing}
+   */
+  public toggleTraining(): void
+  {
+    if (!this._training) {
+      return;
+    }
+
+    if (this._training.paused)
+    {
+      this._training.resume();
+    }
+    else
+    {
+      this._training.pause();
+
+      this._statusSubject.next('DL training paused.');
+    }
+  }
+
+  // copy the original data and break out into training/validation sets; the latter is open for experimentation
+  protected __getTraining(): void
+  {
+    this._xOrig = this._x.slice();
+    this._yOrig = this._y.slice();
+
+    // uncomment to use every other point, for example
+    // const n: number = this._xOrig.length;
+    // let i: number;
+    //
+    // for (i = 0; i < n; i+=2)
+    // {
+    //   this._trainX.push(this._xOrig[i]);
+    //   this._trainY.push(this._yOrig[i]);
+    //
+    //   this._validateX.push(this._xOrig[i+1]);
+    //   this._validateY.push(this._yOrig[i+1]);
+    // }
+    //
+    // // any leftover gets placed into the training set
+    // if (i+1 < n-1)
+    // {
+    //   this._trainX.push(this._xOrig[n-1]);
+    //   this._trainY.push(this._yOrig[n-1]);
+    // }
+
+    this._trainX = this._x.slice();
+    this._trainY = this._y.slice();
+  }
+
+  // compute the RMS error for a given fit
+  protected __getError(fit: Object): void
+  {
+    let err: number = 0;
+    const n: number = this._x.length;
+    let i: number, y: number, d: number;
+
+    if (this.__isLLSQ(fit) || this.__isBLLSQ(fit))
+    {
+      for (i = 0; i < n; ++i)
+      {
+        y = fit.a*this._x[i] + fit.b;
+        d = y - this._y[i];
+
+        err += d*d;
+      }
+
+      this._errorSubject.next( Math.sqrt(err/n) );
+    }
+    else if (this.__isPLLSQ(fit) || this.__isSpline(fit) || this.__isRobust(fit) || this.__isPenalized(fit) || this.__isLoess(fit))
+    {
+      this._errorSubject.next( fit.rms );
+    }
+    else
+    {
+      // who put an extra fit in here?  Homey don't play that!
+      console.log( "Invalid fit: ", fit );
+    }
+  }
+
+  // type guard for ILoessResult
+  protected __isLoess(fit: Object): fit is ILoessResult
+  {
+    return fit.hasOwnProperty('span');
+  }
+
+  // type guard for IPenalizedFit
+  protected __isPenalized(fit: Object): fit is IPenalizedFit
+  {
+    return fit.hasOwnProperty('alpha');
+  }
+
+  // type guard for IRobustFit
+  protected __isRobust(fit: Object): fit is IRobustFit
+  {
+    return fit.hasOwnProperty('inliers');
+  }
+
+  // type guard for ISplineResult
+  protected __isSpline(fit: Object): fit is ISplineResult
+  {
+    return fit.hasOwnProperty('d2');
+  }
+
+  // type guard for ILLSQResult
+  protected __isLLSQ(fit: Object): fit is ILLSQResult
+  {
+    // polynomial fits also report chi2
+    return fit.hasOwnProperty('siga');
+  }
+
+  // type guard for IBaggedLinearFit
+  protected __isBLLSQ(fit: Object): fit is IBagggedLinearFit
+  {
+    return fit.hasOwnProperty('fits');
+  }
+
+  // type guard for IPolyLLSQResult
+  protected __isPLLSQ(fit: Object): fit is IPolyLLSQResult
+  {
+    return fit.hasOwnProperty('coef');
+  }
+
+  // draw a fit line into the supplied graphic context
+  protected __drawFitLine(g: createjs.Graphics, x1: number, y1: number, x2: number, y2: number, color: string): void
+  {
+    g.setStrokeStyle(2);
+    g.beginStroke(color);
+    g.moveTo(x1, y1);
+    g.lineTo(x2, y2);
+    g.endStroke();
+  }
+
+  // draw a fit curve into the supplied graphic context; the polynomial fit is drawn unless another curve is supplied
+  protected __drawFitCurve(g: createjs.Graphics,
+                           xMin: number,
+                           xMax: number,
+                           color: string,
+                           curve: TSMT$Pllsq | TSMT$Spline | TSMT$Polynomial | TSMT$Loess = this._polyFit): void
+  {
+    g.setStrokeStyle(2);
+    g.beginStroke(color);
+
+    let y: number = curve.eval(xMin);
+    g.moveTo(xMin, y);
+
+    let delta: number = 3;
+    let x: number     = xMin + delta;
+
+    while (x < xMax)
+    {
+      y = curve.eval(x);
+      g.lineTo(x, y);
 
       x += delta;
     }
 
-    y = this._polyFit.eval(xMax);
+    y = curve.eval(xMax);
     g.lineTo(xMax, y);
     g.endStroke();
   }
 
+  // draw the selected band about the current least-squares fit as a translucent region; bagged fits have no band
+  protected __drawBand(type: string): void
+  {
+    const g: createjs.Graphics = this._band.graphics;
+    g.clear();
+
+    if (this._bandType == this.BAND_NONE) {
+      return;
+    }
+
+    const xMin: number        = this._x[0];
+    const xMax: number        = this._x[this._x.length-1];
+    const prediction: boolean = this._bandType == this.BAND_PREDICTION;
+    const x: Array<number>    = new Array<number>();
+    let band: IFitBand;
+    let i: number;
+
+    for (i = xMin; i < xMax; i += 3) {
+      x.push(i);
+    }
+
+    x.push(xMax);
+
+    switch (type)
+    {
+      case this.LLSQ:
+        band = TSMT$LLSQ.band(this._x, this._y, x, this._bandLevel, prediction);
+      break;
+
+      case this.QUAD_LLSQ:
+      case this.CUBIC_LLSQ:
+      case this.QUARTIC_LLSQ:
+      case this.AUTO_LLSQ:
+        band = this._polyFit.band(x, this._bandLevel, prediction);
+      break;
+
+      default:
+        return;
+    }
+
+    const n: number = band.x.length;
+    if (n == 0) {
+      return;
+    }
+
+    // upper limit left to right, then lower limit right to left
+    g.beginFill('rgba(0, 0, 255, 0.15)');
+    g.moveTo(band.x[0], band.upper[0]);
+
+    for (i = 1; i < n; ++i) {
+      g.lineTo(band.x[i], band.upper[i]);
+    }
+
+    for (i = n-1; i >= 0; i--) {
+      g.lineTo(band.x[i], band.lower[i]);
+    }
+
+    g.closePath();
+    g.endFill();
+  }
+
+  // list the peaks and valleys of a polynomial fit; the data are in Canvas coordinates (y down), so a peak on the screen
+  // is a minimum of the fit
+  protected __reportExtrema(type: string): void
+  {
+    const polynomial: boolean = type == this.QUAD_LLSQ || type == this.CUBIC_LLSQ || type == this.QUARTIC_LLSQ
+                             || type == this.AUTO_LLSQ;
+
+    if (!polynomial)
+    {
+      this._extremaSubject.next('');
+      return;
+    }
+
+    const extrema: Array<IPolyExtremum> = this._polyFit.extrema(this._x[0], this._x[this._x.length-1]);
+
+    const text: Array<string> = extrema
+      .filter( (e: IPolyExtremum): boolean => {return e.type != TSMT$Polynomial.STATIONARY} )
+      .map( (e: IPolyExtremum): string => {
+        return (e.type == TSMT$Polynomial.MIN ? 'peak' : 'valley') + ' at x = ' + e.x.toFixed(1) + ', y = ' + e.y.toFixed(1);
+      });
+
+    this._extremaSubject.next(text.length > 0 ? text.join('; ') : 'none');
+  }
+
   // return the mock data to use based on the specified dataset
   protected __getPoints(set: string): void
   {
@@ -488,8 +1638,9 @@ export class AppComponent implements OnInit, AfterViewInit
     }
   }
 
-  // plot the data points inside the current Canvas boundary (with buffer space)
-  protected __plotPoints(): void
+  // plot the data points inside the current Canvas boundary (with buffer space); points marked false in the optional
+  // inlier mask (outliers rejected by a robust fit) are drawn in red
+  protected __plotPoints(inliers?: Array<boolean>): void
   {
     const g: createjs.Graphics = this._points.graphics;
     g.clear();
@@ -497,7 +1648,7 @@ export class AppComponent implements OnInit, AfterViewInit
     let i: number;
     for (i = 0; i < this._x.length; ++i)
     {
-      g.beginFill('#00ff00');
+      g.beginFill(inliers && inliers[i] === false ? '#ff0000' : '#00ff00');
       g.drawCircle(this._x[i], this._y[i], 3);
       g.endFill();
     }
@@ -549,100 +1700,124 @@ export class AppComponent implements OnInit, AfterViewInit
     return output;
   }
 
+  // execute at the end of every DL training epoch
+  protected __onTrainingProgress(progress: IDlTrainingProgress): void
+  {
+    this._lastProgress = progress;
+
+    const validation: string = isNaN(progress.validationLoss) ? 'n/a' : progress.validationLoss.toFixed(4);
+
+    this._statusSubject.next( 'Epoch ' + progress.epoch + ' of ' + this._trainingOptions.numEpochs
+      + ', loss: ' + progress.trainingLoss.toFixed(4)
+      + ', validation loss: ' + validation
+      + ', lr: ' + progress.learningRate.toPrecision(3)
+      + ' (' + (progress.elapsed/1000).toFixed(1) + ' sec)' );
+  }
+
   // execute whenever DL training is complete
-  protected __onTrainingComplete(): void
+  protected __onTrainingComplete(result: IDlTrainingResult): void
   {
-    this.dlCoefs = this._dlVars.map( (s: dl.Scalar) => {return s.dataSync()[0]} );
+    // polynomial coefficients are reported in data units, regardless of normalization; basis-function and MLP models
+    // report their raw parameters.  A failed run reports none, so the previous coefficients are kept.
+    if (result.stopReason != DlTrainingHandle.STOP_ERROR) {
+      this.dlCoefs = result.coefs.slice();
+    }
+
+    this._lastResult = result;
+
+    this.__drawDlModel();
+
+    this._statusSubject.next( this.__trainingSummary(result) );
+  }
 
+  // draw the current DL model in data coordinates
+  protected __drawDlModel(): void
+  {
     const g: createjs.Graphics = this._deep.graphics;
 
     g.clear();
+
+    // a run cancelled before completing an epoch has no coefficients to draw
+    if (!this._dlModel && (!this.dlCoefs || this.dlCoefs.length == 0))
+    {
+      this._stage.update();
+      return;
+    }
+
     g.setStrokeStyle(2);
     g.beginStroke('#ff0000');
 
-    // plot the curve - we have to transform the
-    const n: number = this.dlCoefs.length;
-    let xd: number, yd: number;
-
+    // plot the curve in data units and transform to Canvas coordinates for display
     const mx: number = (this._width - 2*this.BUFFER)  / (this._xmax - this._xmin);
     const my: number = (2*this.BUFFER - this._height) / (this._ymax - this._ymin);
 
-    if (n == 2)
-    {
-      let x1: number = this._xmin;
-      let y1: number = this.dlCoefs[0] + this.dlCoefs[1] * x1;
-
-      let x2: number = this._xmax;
-      let y2: number = this.dlCoefs[0] + this.dlCoefs[1] * x2;
+    const delta: number    = 0.1;
+    const x: Array<number> = new Array<number>();
+    let xs: number;
 
-      // transform to Canvas coordinates for display
-      xd = Math.round(mx * (x1 - this._xmin) + this.BUFFER);
-      yd = Math.round(my * (y1 - this._ymin) + this._height - this.BUFFER);
+    for (xs = this._xmin; xs < this._xmax; xs += delta) {
+      x.push(xs);
+    }
 
-      g.moveTo(xd, yd);
+    x.push(this._xmax);
 
-      xd = Math.round(mx * (x2 - this._xmin) + this.BUFFER);
-      yd = Math.round(my * (y2 - this._ymin) + this._height - this.BUFFER);
+    const y: Array<number> = this._dlModel ? DlModel.predict(x, this._dlModel, this._normalizer) : this.__dlPolynomial(x);
+    let i: number, xc: number, yc: number;
 
-      g.lineTo(xd, yd);
-    }
-    else
+    for (i = 0; i < x.length; ++i)
     {
-      // draw curve
-      let delta: number = 0.1;
-      let x: number, xc: number, yc;
-      let y: number;
-      let i: number;
+      xc = Math.round(mx * (x[i] - this._xmin) + this.BUFFER);
+      yc = Math.round(my * (y[i] - this._ymin) + this._height - this.BUFFER);
 
-      // transform to Canvas coordinates for display
-
-      x = this._xmin;
-      y = this.dlCoefs[n-1];
-
-      for (i = n-2; i >= 0; i--) {
-        y = x * y + this.dlCoefs[i];
+      if (i == 0) {
+        g.moveTo(xc, yc);
       }
+      else {
+        g.lineTo(xc, yc);
+      }
+    }
 
-      xc = Math.round(mx * (x - this._xmin) + this.BUFFER);
-      yc = Math.round(my * (y - this._ymin) + this._height - this.BUFFER);
-
-      g.moveTo(xc, yc);
-
-      x = this._xmin + delta;
-      while (x < this._xmax)
-      {
-        // evaluate the polynomial with nested multiplication
-        y = this.dlCoefs[n-1];
-
-        for (i = n-2; i >= 0; i--) {
-          y = x * y + this.dlCoefs[i];
-        }
-
-        xc = Math.round(mx * (x - this._xmin) + this.BUFFER);
-        yc = Math.round(my * (y - this._ymin) + this._height - this.BUFFER);
+    g.endStroke();
 
-        g.lineTo(xc, yc);
+    this._stage.update();
+  }
 
-        x += delta;
-      }
+  // evaluate the DL polynomial (coefficients in data units) with nested multiplication
+  protected __dlPolynomial(x: Array<number>): Array<number>
+  {
+    const n: number = this.dlCoefs.length;
 
-      x = this._xmax;
-      y = this.dlCoefs[n-1];
+    return x.map( (v: number): number => {
+      let y: number = this.dlCoefs[n-1];
+      let i: number;
 
       for (i = n-2; i >= 0; i--) {
-        y = x * y + this.dlCoefs[i];
+        y = v * y + this.dlCoefs[i];
       }
 
-      xc = Math.round(mx * (x - this._xmin) + this.BUFFER);
-      yc = Math.round(my * (y - this._ymin) + this._height - this.BUFFER);
+      return y;
+    });
+  }
+
+  // describe why DL training stopped
+  protected __trainingSummary(result: IDlTrainingResult): string
+  {
+    const best: string = result.restored ? ', restored best epoch ' + result.bestEpoch : '';
+    const seed: string = ', seed ' + result.seed;
 
-      g.lineTo(xc, yc);
-    }
+    switch (result.stopReason)
+    {
+      case DlTrainingHandle.STOP_EARLY:
+        return 'DL training stopped early after ' + result.epochs + ' epochs (no improvement)' + best + seed + '.';
 
-    g.endStroke();
+      case DlTrainingHandle.STOP_CANCELLED:
+        return 'DL training cancelled after ' + result.epochs + ' epochs' + best + seed + '.';
 
-    this._stage.update();
+      case DlTrainingHandle.STOP_ERROR:
+        return 'DL training failed: ' + result.error;
 
-    this._statusSubject.next('DL training complete.');
+      default:
+        return 'DL training complete (' + result.epochs + ' epochs' + best + seed + ').';
+    }
   }
 }
@@ -0,0 +1,264 @@
+import * as dl from 'deeplearn';
+
+import { IDlRegressor } from "./dlModel";
+import { IDlScaling   } from "./dlNormalizer";
+import { DlRandom     } from "./dlRandom";
+
+/**
+ * General basis-function regression model, y = w0 + w1*f1(t) + w2*f2(t) + ..., where t is the input mapped onto [-1, 1]
+ * over the training domain.  Available bases are monomials, Chebyshev and Legendre polynomials, Fourier (sin/cos)
+ * terms, Gaussian radial basis functions with learnable centers, and sigmoids with fixed centers.  The model is trained
+ * with the same loop as the polynomial model (pass it to DlModel.train in place of the coefficient array).
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+export class DlBasisModel implements IDlRegressor
+{
+  // basis types
+  public static MONOMIAL: string  = 'monomial';
+  public static CHEBYSHEV: string = 'chebyshev';
+  public static LEGENDRE: string  = 'legendre';
+  public static FOURIER: string   = 'fourier';
+  public static RBF: string       = 'rbf';
+  public static SIGMOID: string   = 'sigmoid';
+
+  protected _basis: string;
+  protected _weights: Array< dl.Variable<dl.Rank.R0> >;   // one weight per basis function, including the constant
+  protected _centers: Array< dl.Variable<dl.Rank.R0> >;   // RBF (trainable) or sigmoid (fixed) centers in t
+  protected _width: number;                               // RBF width or sigmoid transition scale in t
+  protected _offset: number;                              // t = (x - offset) / scale
+  protected _scale: number;
+
+  /**
+   * Construct a new basis-function model
+   *
+   * @param {string} basis Basis type (one of the DlBasisModel constants); monomials are used if the type is not recognized
+   *
+   * @param {number} size Number of basis functions, including the constant (minimum 1)
+   *
+   * @param {Array<number>} values Optional initial weights; pseudo-random weights in (0, 1) are used for any that are
+   * not supplied
+   *
+   * @param {DlRandom} random Optional (seeded) generator for the weights that are not supplied; a generator with a new
+   * seed is used if omitted
+   */
+  constructor(basis: string, size: number, values?: Array<number>, random?: DlRandom)
+  {
+    const bases: Array<string> = [DlBasisModel.MONOMIAL, DlBasisModel.CHEBYSHEV, DlBasisModel.LEGENDRE,
+      DlBasisModel.FOURIER, DlBasisModel.RBF, DlBasisModel.SIGMOID];
+
+    this._basis  = bases.indexOf(basis) != -1 ? basis : DlBasisModel.MONOMIAL;
+    this._offset = 0;
+    this._scale  = 1;
+
+    const n: number = isNaN(size) || size < 1 ? 1 : Math.round(size);
+    let i: number;
+    let value: number;
+
+    random = random || new DlRandom();
+
+    this._weights = new Array< dl.Variable<dl.Rank.R0> >();
+    for (i = 0; i < n; ++i)
+    {
+      value = values && i < values.length && !isNaN(values[i]) ? values[i] : random.uniform();
+
+      this._weights.push( dl.variable(dl.scalar(value)) );
+    }
+
+    // localized bases are spread evenly over [-1, 1], with a width equal to the center spacing
+    const k: number          = n - 1;
+    const trainable: boolean = this._basis == DlBasisModel.RBF;
+
+    this._centers = new Array< dl.Variable<dl.Rank.R0> >();
+    this._width   = k > 1 ? 2.0 / (k - 1) : 1.0;
+
+    if (this._basis == DlBasisModel.RBF || this._basis == DlBasisModel.SIGMOID)
+    {
+      for (i = 0; i < k; ++i) {
+        this._centers.push( dl.variable(dl.scalar(k > 1 ? -1.0 + i*this._width : 0.0), trainable) );
+      }
+    }
+  }
+
+  /**
+   * Access the basis type
+   *
+   * @returns {string}
+   */
+  public get basis(): string
+  {
+    return this._basis;
+  }
+
+  /**
+   * Access the number of basis functions, including the constant
+   *
+   * @returns {number}
+   */
+  public get size(): number
+  {
+    return this._weights.length;
+  }
+
+  /**
+   * Access the input domain
+   *
+   * @returns {IDlScaling} Offset and scale that map the input onto t, t = (x - offset) / scale
+   */
+  public get domain(): IDlScaling
+  {
+    return {offset: this._offset, scale: this._scale};
+  }
+
+  /**
+   * Assign the input domain directly, i.e. to restore a previously trained model
+   *
+   * @param {IDlScaling} domain Offset and scale that map the input onto t; zero or invalid scales are replaced by one
+   *
+   * @returns {nothing}
+   */
+  public setDomain(domain: IDlScaling): void
+  {
+    this._offset = domain && !isNaN(domain.offset) ? domain.offset : 0;
+    this._scale  = domain && !isNaN(domain.scale) && domain.scale != 0 ? domain.scale : 1;
+  }
+
+  /**
+   * Access the trainable model parameters
+   *
+   * @returns {Array<Variable>} Weights, followed by the centers of an RBF model
+   */
+  public get params(): Array<dl.Variable>
+  {
+    const params: Array<dl.Variable> = this._weights.slice();
+
+    return this._basis == DlBasisModel.RBF ? params.concat(this._centers) : params;
+  }
+
+  /**
+   * Access per-parameter regularization weights for this model
+   *
+   * @returns {Array<number>} Zero for the constant term and any RBF centers, one for all other weights, in the same
+   * order as the params array
+   */
+  public get penaltyWeights(): Array<number>
+  {
+    return this.params.map( (p: dl.Variable, i: number): number => {return i > 0 && i < this._weights.length ? 1 : 0} );
+  }
+
+  /**
+   * Set the input domain from the training x-coordinates so that t spans [-1, 1] (called by the training loop)
+   *
+   * @param {Array<number>} x x-coordinates of the training set
+   *
+   * @returns {nothing}
+   */
+  public prepare(x: Array<number>): void
+  {
+    const n: number = x ? x.length : 0;
+    if (n == 0) {
+      return;
+    }
+
+    let min: number = x[0];
+    let max: number = x[0];
+    let i: number;
+
+    for (i = 1; i < n; ++i)
+    {
+      min = Math.min(min, x[i]);
+      max = Math.max(max, x[i]);
+    }
+
+    this._offset = 0.5*(min + max);
+    this._scale  = max > min ? 0.5*(max - min) : 1.0;
+  }
+
+  /**
+   * Predictor for a batch of inputs
+   *
+   * @param {Tensor1D} x Values of the independent variable
+   *
+   * @returns {Tensor1D} Model value at each of the input values
+   */
+  public predict(x: dl.Tensor1D): dl.Tensor1D
+  {
+    return dl.tidy( () => {
+      const t: dl.Tensor1D          = x.sub( dl.scalar(this._offset) ).div( dl.scalar(this._scale) ) as dl.Tensor1D;
+      const phi: Array<dl.Tensor1D> = this.__functions(t);
+
+      let val: dl.Tensor1D = dl.zerosLike(x).add(this._weights[0]);
+      let i: number;
+
+      for (i = 1; i < phi.length; ++i) {
+        val = val.add( phi[i].mul(this._weights[i]) );
+      }
+
+      return val;
+    });
+  }
+
+  /**
+   * Release all model variables
+   *
+   * @returns {nothing}
+   */
+  public dispose(): void
+  {
+    this._weights.forEach( (v: dl.Variable<dl.Rank.R0>): void => {v.dispose()} );
+    this._centers.forEach( (v: dl.Variable<dl.Rank.R0>): void => {v.dispose()} );
+
+    this._weights = new Array< dl.Variable<dl.Rank.R0> >();
+    this._centers = new Array< dl.Variable<dl.Rank.R0> >();
+  }
+
+  // evaluate every basis function at the mapped inputs; the first function is the constant
+  protected __functions(t: dl.Tensor1D): Array<dl.Tensor1D>
+  {
+    const n: number               = this._weights.length;
+    const phi: Array<dl.Tensor1D> = [dl.onesLike(t)];
+    const w: dl.Scalar            = dl.scalar(this._width);
+
+    let k: number;
+    let freq: number;
+
+    for (k = 1; k < n; ++k)
+    {
+      switch (this._basis)
+      {
+        case DlBasisModel.CHEBYSHEV:
+          // T(k) = 2t*T(k-1) - T(k-2)
+          phi[k] = k == 1 ? t : t.mul(phi[k-1]).mul(dl.scalar(2)).sub(phi[k-2]) as dl.Tensor1D;
+        break;
+
+        case DlBasisModel.LEGENDRE:
+          // k*P(k) = (2k-1)*t*P(k-1) - (k-1)*P(k-2)
+          phi[k] = k == 1
+            ? t
+            : t.mul(phi[k-1]).mul(dl.scalar(2*k-1)).sub( phi[k-2].mul(dl.scalar(k-1)) ).div(dl.scalar(k)) as dl.Tensor1D;
+        break;
+
+        case DlBasisModel.FOURIER:
+          // sin and cos pairs; the domain spans half of the fundamental period, so the fit is not forced to be periodic
+          freq   = 0.5 * Math.PI * Math.ceil(k/2);
+          phi[k] = (k % 2 == 1 ? t.mul(dl.scalar(freq)).sin() : t.mul(dl.scalar(freq)).cos()) as dl.Tensor1D;
+        break;
+
+        case DlBasisModel.RBF:
+          phi[k] = t.sub(this._centers[k-1]).div(w).square().mul(dl.scalar(-0.5)).exp() as dl.Tensor1D;
+        break;
+
+        case DlBasisModel.SIGMOID:
+          phi[k] = t.sub(this._centers[k-1]).div(w).sigmoid() as dl.Tensor1D;
+        break;
+
+        default:
+          phi[k] = phi[k-1].mul(t);
+      }
+    }
+
+    return phi;
+  }
+}
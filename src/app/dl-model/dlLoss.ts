@@ -0,0 +1,144 @@
+import * as dl from 'deeplearn';
+
+/**
+ * Loss selection for a training run
+ */
+export interface IDlLossOptions
+{
+  name: string;              // name of a registered loss, i.e. DlLoss.HUBER
+
+  delta?: number;            // Huber threshold; residuals larger than this in magnitude are penalized linearly (default 1)
+
+  weights?: Array<number>;   // optional per-sample weights, one for each training point (required for a meaningful weighted MSE)
+}
+
+/**
+ * A pointwise loss maps each residual (actual - predicted) to a nonnegative penalty
+ */
+export type DlPointwiseLoss = (residual: dl.Tensor1D, options: IDlLossOptions) => dl.Tensor1D;
+
+/**
+ * Registry of loss functions for DL regression.  Each loss is registered as a pointwise penalty on the residuals; the
+ * training loss is the (optionally weighted) mean of that penalty across a batch.  Squared-error loss is very sensitive
+ * to outliers, while absolute, Huber, and log-cosh losses grow linearly for large residuals and produce more robust fits.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+export class DlLoss
+{
+  // names of the built-in losses
+  public static MSE: string          = 'mse';
+  public static MAE: string          = 'mae';
+  public static HUBER: string        = 'huber';
+  public static LOG_COSH: string     = 'log-cosh';
+  public static WEIGHTED_MSE: string = 'weighted-mse';
+
+  protected static _registry: {[name: string]: DlPointwiseLoss} = {
+    'mse': DlLoss.__squared,
+    'mae': DlLoss.__absolute,
+    'huber': DlLoss.__huber,
+    'log-cosh': DlLoss.__logCosh,
+    'weighted-mse': DlLoss.__squared
+  };
+
+  /**
+   * Register a new loss (or replace an existing one)
+   *
+   * @param {string} name Loss name
+   *
+   * @param {DlPointwiseLoss} loss Pointwise penalty applied to each residual
+   *
+   * @returns {nothing}
+   */
+  public static register(name: string, loss: DlPointwiseLoss): void
+  {
+    if (name !== undefined && name != null && name != '' && loss) {
+      DlLoss._registry[name] = loss;
+    }
+  }
+
+  /**
+   * Is a loss registered under the supplied name?
+   *
+   * @param {string} name Loss name
+   *
+   * @returns {boolean} True if a loss is registered under this name
+   */
+  public static has(name: string): boolean
+  {
+    return DlLoss._registry.hasOwnProperty(name);
+  }
+
+  /**
+   * Access the names of all registered losses
+   *
+   * @returns {Array<string>} Registered loss names
+   */
+  public static get names(): Array<string>
+  {
+    return Object.keys(DlLoss._registry);
+  }
+
+  /**
+   * Compute the loss across a batch
+   *
+   * @param {Tensor1D} prediction Predicted values
+   *
+   * @param {Tensor1D} actual Actual values
+   *
+   * @param {IDlLossOptions} options Loss selection; defaults to MSE if undefined or the name is not registered
+   *
+   * @param {Tensor1D} weights Optional per-sample weights for this batch
+   *
+   * @returns {Scalar} Mean (or weighted mean) of the pointwise loss
+   */
+  public static compute(prediction: dl.Tensor1D,
+                        actual: dl.Tensor1D,
+                        options?: IDlLossOptions,
+                        weights?: dl.Tensor1D): dl.Scalar
+  {
+    const selected: IDlLossOptions = options && DlLoss.has(options.name) ? options : {name: DlLoss.MSE};
+    const loss: DlPointwiseLoss    = DlLoss._registry[selected.name];
+    const penalty: dl.Tensor1D     = loss(actual.sub(prediction), selected);
+
+    if (!weights) {
+      return penalty.mean() as dl.Scalar;
+    }
+
+    return penalty.mul(weights).sum().div(weights.sum()) as dl.Scalar;
+  }
+
+  // squared residual
+  protected static __squared(residual: dl.Tensor1D, options: IDlLossOptions): dl.Tensor1D
+  {
+    return residual.square();
+  }
+
+  // absolute residual
+  protected static __absolute(residual: dl.Tensor1D, options: IDlLossOptions): dl.Tensor1D
+  {
+    return residual.abs();
+  }
+
+  // Huber loss, 0.5*r^2 for |r| <= delta and delta*(|r| - 0.5*delta) otherwise; written as 0.5*a^2 + delta*(|r| - a)
+  // with a = min(|r|, delta) since every op in that form has a gradient
+  protected static __huber(residual: dl.Tensor1D, options: IDlLossOptions): dl.Tensor1D
+  {
+    const d: number         = isNaN(options.delta) || options.delta <= 0 ? 1.0 : options.delta;
+    const delta: dl.Scalar  = dl.scalar(d);
+    const absR: dl.Tensor1D = residual.abs();
+    const a: dl.Tensor1D    = dl.minimum(absR, delta);
+
+    return a.square().mul(dl.scalar(0.5)).add( delta.mul(absR.sub(a)) ) as dl.Tensor1D;
+  }
+
+  // log(cosh(r)), computed as |r| + log(1 + exp(-2|r|)) - log(2) so that large residuals do not overflow
+  protected static __logCosh(residual: dl.Tensor1D, options: IDlLossOptions): dl.Tensor1D
+  {
+    const absR: dl.Tensor1D = residual.abs();
+
+    return absR.add( absR.mul(dl.scalar(-2)).exp().add(dl.scalar(1)).log() ).sub(dl.scalar(Math.LN2)) as dl.Tensor1D;
+  }
+}
@@ -0,0 +1,205 @@
+import * as dl from 'deeplearn';
+
+import { IDlRegressor } from "./dlModel";
+import { DlRandom     } from "./dlRandom";
+
+/**
+ * Network architecture and initialization for a multilayer perceptron
+ */
+export interface IDlMlpConfig
+{
+  hidden: Array<number>;   // number of units in each hidden layer, i.e. [10, 10] for two layers of ten units
+
+  activation?: string;     // hidden-layer activation, one of the DlMlp activation constants (default tanh)
+
+  init?: string;           // weight initialization, one of the DlMlp.INIT_XXX constants (default Xavier)
+}
+
+/**
+ * Small multilayer perceptron regressor, x -> hidden layers -> y, with a linear output unit.  The network is trained
+ * with the same loop as the polynomial model (pass it to DlModel.train in place of the coefficient array); normalized
+ * training is strongly recommended since saturating activations require inputs and outputs of order one.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+export class DlMlp implements IDlRegressor
+{
+  // hidden-layer activations
+  public static RELU: string       = 'relu';
+  public static LEAKY_RELU: string = 'leaky-relu';
+  public static ELU: string        = 'elu';
+  public static TANH: string       = 'tanh';
+  public static SIGMOID: string    = 'sigmoid';
+
+  // weight initialization
+  public static INIT_XAVIER: string  = 'xavier';    // uniform on +/- sqrt(6/(fanIn + fanOut))
+  public static INIT_HE: string      = 'he';        // normal with standard deviation sqrt(2/fanIn); suited to ReLU
+  public static INIT_UNIFORM: string = 'uniform';   // uniform on +/- 1/sqrt(fanIn)
+
+  protected _hidden: Array<number>;
+  protected _activation: string;
+  protected _init: string;
+  protected _weights: Array< dl.Variable<dl.Rank.R2> >;   // one weight matrix per layer, [fanIn, fanOut]
+  protected _biases: Array< dl.Variable<dl.Rank.R1> >;    // one bias vector per layer
+
+  /**
+   * Construct a new network
+   *
+   * @param {IDlMlpConfig} config Hidden-layer widths, activation, and weight initialization; non-positive widths are
+   * ignored (a network with no hidden layers is a linear model)
+   *
+   * @param {DlRandom} random Optional (seeded) generator for the initial weights; a generator with a new seed is used
+   * if omitted
+   */
+  constructor(config: IDlMlpConfig, random?: DlRandom)
+  {
+    const activations: Array<string> = [DlMlp.RELU, DlMlp.LEAKY_RELU, DlMlp.ELU, DlMlp.TANH, DlMlp.SIGMOID];
+    const inits: Array<string>       = [DlMlp.INIT_XAVIER, DlMlp.INIT_HE, DlMlp.INIT_UNIFORM];
+
+    this._hidden     = (config && config.hidden ? config.hidden : [])
+                         .filter( (w: number): boolean => {return w >= 1} )
+                         .map( (w: number): number => {return Math.round(w)} );
+    this._activation = config && activations.indexOf(config.activation) != -1 ? config.activation : DlMlp.TANH;
+    this._init       = config && inits.indexOf(config.init) != -1 ? config.init : DlMlp.INIT_XAVIER;
+
+    this._weights = new Array< dl.Variable<dl.Rank.R2> >();
+    this._biases  = new Array< dl.Variable<dl.Rank.R1> >();
+
+    // layer sizes, including the single input and output
+    const sizes: Array<number> = [1].concat(this._hidden, [1]);
+    let i: number;
+
+    random = random || new DlRandom();
+
+    for (i = 1; i < sizes.length; ++i)
+    {
+      this._weights.push( dl.variable( this.__initialWeights(sizes[i-1], sizes[i], random) ) );
+      this._biases.push( dl.variable( dl.zeros<dl.Rank.R1>([sizes[i]]) ) );
+    }
+  }
+
+  /**
+   * Access the network configuration
+   *
+   * @returns {IDlMlpConfig} Copy of the (validated) hidden-layer widths, activation, and initialization
+   */
+  public get config(): IDlMlpConfig
+  {
+    return {hidden: this._hidden.slice(), activation: this._activation, init: this._init};
+  }
+
+  /**
+   * Access the trainable model parameters
+   *
+   * @returns {Array<Variable>} Weight matrix and bias vector of each layer, in order from input to output
+   */
+  public get params(): Array<dl.Variable>
+  {
+    const params: Array<dl.Variable> = new Array<dl.Variable>();
+
+    this._weights.forEach( (w: dl.Variable<dl.Rank.R2>, i: number): void => {params.push(w, this._biases[i])} );
+
+    return params;
+  }
+
+  /**
+   * Access per-parameter regularization weights for this model
+   *
+   * @returns {Array<number>} One for each weight matrix and zero for each bias vector, in the same order as the params array
+   */
+  public get penaltyWeights(): Array<number>
+  {
+    return this.params.map( (p: dl.Variable, i: number): number => {return i % 2 == 0 ? 1 : 0} );
+  }
+
+  /**
+   * Predictor for a batch of inputs
+   *
+   * @param {Tensor1D} x Values of the independent variable
+   *
+   * @returns {Tensor1D} Network output at each of the input values
+   */
+  public predict(x: dl.Tensor1D): dl.Tensor1D
+  {
+    return dl.tidy( () => {
+      const n: number = this._weights.length;
+
+      let h: dl.Tensor2D = x.as2D(x.shape[0], 1);
+      let i: number;
+
+      for (i = 0; i < n; ++i)
+      {
+        h = h.matMul(this._weights[i]).add(this._biases[i]) as dl.Tensor2D;
+
+        // the output unit is linear
+        if (i < n-1) {
+          h = this.__activate(h);
+        }
+      }
+
+      return h.as1D();
+    });
+  }
+
+  /**
+   * Release all model variables
+   *
+   * @returns {nothing}
+   */
+  public dispose(): void
+  {
+    this._weights.forEach( (v: dl.Variable<dl.Rank.R2>): void => {v.dispose()} );
+    this._biases.forEach( (v: dl.Variable<dl.Rank.R1>): void => {v.dispose()} );
+
+    this._weights = new Array< dl.Variable<dl.Rank.R2> >();
+    this._biases  = new Array< dl.Variable<dl.Rank.R1> >();
+  }
+
+  // apply the hidden-layer activation
+  protected __activate(h: dl.Tensor2D): dl.Tensor2D
+  {
+    switch (this._activation)
+    {
+      case DlMlp.RELU:
+        return h.relu();
+
+      case DlMlp.LEAKY_RELU:
+        return h.leakyRelu(0.1);
+
+      case DlMlp.ELU:
+        return h.elu();
+
+      case DlMlp.SIGMOID:
+        return h.sigmoid();
+
+      default:
+        return h.tanh();
+    }
+  }
+
+  // initial weight matrix for a layer
+  protected __initialWeights(fanIn: number, fanOut: number, random: DlRandom): dl.Tensor2D
+  {
+    const n: number = fanIn*fanOut;
+    let values: Array<number>;
+
+    switch (this._init)
+    {
+      case DlMlp.INIT_HE:
+        // the normal initializer, scaled up by sqrt(2) to account for the half of the inputs that ReLU zeroes
+        values = random.values(DlRandom.NORMAL, n, fanIn).map( (w: number): number => {return Math.SQRT2*w} );
+      break;
+
+      case DlMlp.INIT_UNIFORM:
+        values = random.values(DlRandom.UNIFORM, n, fanIn);
+      break;
+
+      default:
+        values = random.values(DlRandom.XAVIER, n, fanIn, fanOut);
+    }
+
+    return dl.tensor2d(values, [fanIn, fanOut]);
+  }
+}
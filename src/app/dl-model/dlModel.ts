@@ -1,7 +1,77 @@
 import * as dl from 'deeplearn';
 
+import { DlTrainingHandle
+       , IDlTrainingResult } from "./dlTrainingHandle";
+import { DlLoss
+       , IDlLossOptions    } from "./dlLoss";
+import { DlRegularizer
+       , IDlRegularization } from "./dlRegularizer";
+import { DlOptimizer
+       , IDlOptimizerConfig } from "./dlOptimizer";
+import { DlNormalizer       } from "./dlNormalizer";
+import { DlRandom           } from "./dlRandom";
+
+/**
+ * Early stopping based on validation loss (or training loss if no validation set is supplied)
+ */
+export interface IDlEarlyStopping
+{
+  patience: number;              // number of epochs without improvement before training is stopped; a non-negative
+                                 // integer (0 stops at the first epoch without improvement), Infinity to track the best
+                                 // epoch without stopping, or DlModel.PATIENCE if missing or invalid
+
+  minDelta?: number;             // minimum decrease in loss that counts as an improvement (default 0)
+
+  restoreBestWeights?: boolean;  // true if model parameters are to be rolled back to the best epoch when training stops
+                                 // (a cancelled run keeps its current parameters)
+}
+
+/**
+ * A trainable regression model of one variable; any model that implements this interface can be trained and evaluated
+ * with DlModel.  An array of scalar variables is interpreted as the coefficients of the polynomial model.
+ */
+export interface IDlRegressor
+{
+  params: Array<dl.Variable>;              // trainable parameters (updated in place by training)
+
+  predict(x: dl.Tensor1D): dl.Tensor1D;    // batch predictor
+
+  prepare?(x: Array<number>): void;        // optional data-dependent setup (i.e. input domain), called with the
+                                           // (normalized) training x-coordinates before training begins
+}
+
+/**
+ * Options that control a (vectorized) training run
+ */
+export interface IDlTrainingOptions
+{
+  numEpochs: number;    // number of complete passes through the training set
+
+  batchSize?: number;   // samples per optimizer step; 1 is pure SGD, 0 (or >= number of samples) is full-batch
+
+  shuffle?: boolean;    // true if the training set is to be reshuffled at the start of every epoch
+
+  seed?: number;        // optional seed for shuffling (see DlRandom); a new seed is chosen, and reported in the
+                        // result, if omitted
+
+  validateX?: Array<number>;   // optional validation set, x-coordinates
+
+  validateY?: Array<number>;   // optional validation set, y-coordinates
+
+  earlyStopping?: IDlEarlyStopping;   // optional early stopping; training runs for numEpochs if omitted
+
+  loss?: IDlLossOptions;              // optional loss selection; squared residual (MSE) if omitted
+
+  regularization?: IDlRegularization; // optional L1/L2 penalty on the model parameters, added to the loss during training
+
+  normalizer?: DlNormalizer;          // optional normalization; fit to the training set, which is then trained in the
+                                      // normalized space (model parameters remain in that space; only polynomial
+                                      // coefficients are reported in data units)
+}
+
 /**
  * Predictor, training, and loss functions for a polynomial approximation to 2D data in the form a0 + a1*x + a2*x^2 + a3*x^3 + ...
+ * The same training loop applies to any model that implements IDlRegressor, i.e. DlBasisModel.
  *
  * @author Jim Armstrong (www.algorithmist.net)
  *
@@ -9,6 +79,9 @@ import * as dl from 'deeplearn';
  */
 export class DlModel
 {
+  // early-stopping patience used when none (or an invalid value) is supplied
+  public static PATIENCE: number = 10;
+
   /**
    * Predictor for a given input
    *
@@ -39,6 +112,33 @@ export class DlModel
     });
   }
 
+  /**
+   * Predictor for a batch of inputs
+   *
+   * @param {Tensor1D} x Values of the independent variable
+   *
+   * @param {Array<Variable<dl.Rank.R0>>} params Model coefficients
+   *
+   * @returns {Tensor1D} Model value at each of the input values
+   */
+  public static batchPredictor(x: dl.Tensor1D, params: Array< dl.Variable<dl.Rank.R0> >): dl.Tensor1D
+  {
+    return dl.tidy( () => {
+      // nested multiplication, same as the scalar predictor, except that every op is applied across the whole batch
+      const n: number      = params.length;
+      let val: dl.Tensor1D = dl.zerosLike(x).add(params[n-1]);
+      let i: number;
+
+      for (i = n-2; i >= 0; i--)
+      {
+        val = val.mul(x);
+        val = val.add(params[i]);
+      }
+
+      return val;
+    });
+  }
+
   /**
    * Loss function for training
    *
@@ -55,35 +155,159 @@ export class DlModel
     return delta.square();
   }
 
-  public static async train(xtrain: Array<number>,
-                            ytrain: Array<number>,
-                            optimizer: dl.Optimizer,
-                            params: Array< dl.Variable<dl.Rank.R0> >,
-                            numIterations: number,
-                            done: Function)
+  /**
+   * Loss function for batch training
+   *
+   * @param {Tensor1D} prediction Predicted values
+   *
+   * @param {Tensor1D} actual Actual values
+   *
+   * @param {IDlLossOptions} loss Optional loss selection (defaults to MSE)
+   *
+   * @param {Tensor1D} weights Optional per-sample weights for this batch
+   *
+   * @returns {Scalar} Mean (or weighted mean) of the selected loss across the batch
+   */
+  public static batchLoss(prediction: dl.Tensor1D,
+                          actual: dl.Tensor1D,
+                          loss?: IDlLossOptions,
+                          weights?: dl.Tensor1D): dl.Scalar
   {
-    let iter: number;
-    let i: number;
+    return DlLoss.compute(prediction, actual, loss, weights);
+  }
 
-    const n: number = xtrain.length;
+  /**
+   * Train the model with (mini-)batch gradient descent
+   *
+   * @param {Array<number>} xtrain x-coordinates of the training set
+   *
+   * @param {Array<number>} ytrain y-coordinates of the training set
+   *
+   * @param {Optimizer | IDlOptimizerConfig} optimizer Optimizer used to minimize the loss, or a configuration from which
+   * an optimizer is created for (and disposed at the end of) this run.  Learning-rate schedules require a configuration.
+   *
+   * @param {Array<Variable<dl.Rank.R0>> | IDlRegressor} model Polynomial coefficients or any other regression model
+   * (parameters are updated in place)
+   *
+   * @param {IDlTrainingOptions} options Number of epochs, batch size, shuffle option and seed, optional validation set
+   * and early-stopping criteria
+   *
+   * @param {Function} done Optional callback executed on completion (including cancellation and failure); the callback is
+   * passed the IDlTrainingResult for the run.  A run that throws (i.e. an invalid loss, mismatched shapes, or a model
+   * disposed during training) completes with stopReason DlTrainingHandle.STOP_ERROR, no coefficients, and the error
+   * message.
+   *
+   * @returns {DlTrainingHandle} Handle that streams per-epoch progress and allows the run to be cancelled, paused, or
+   * resumed.  Training begins immediately and does not block the browser.
+   */
+  public static train(xtrain: Array<number>,
+                      ytrain: Array<number>,
+                      optimizer: dl.Optimizer | IDlOptimizerConfig,
+                      model: Array< dl.Variable<dl.Rank.R0> > | IDlRegressor,
+                      options: IDlTrainingOptions,
+                      done?: Function): DlTrainingHandle
+  {
+    const handle: DlTrainingHandle   = new DlTrainingHandle();
+    const config: IDlOptimizerConfig = optimizer instanceof dl.Optimizer ? null : optimizer;
+    const opt: dl.Optimizer          = config ? DlOptimizer.create(config) : optimizer as dl.Optimizer;
 
-    for (iter = 0; iter < numIterations; iter++)
-    {
-      for ( i = 0; i < n; i++)
-      {
-        optimizer.minimize( () => {
-          const pred: dl.Scalar = DlModel.predictor(xtrain[i], params);
-          const loss: dl.Scalar = DlModel.loss(pred, ytrain[i]);
+    const finish: (result: IDlTrainingResult) => void = (result: IDlTrainingResult): void => {
+      if (config) {
+        opt.dispose();
+      }
+
+      handle.complete(result);
 
-          return loss;
-        });
+      if (done) {
+        done(result);
       }
+    };
 
-      await dl.nextFrame();  // does not block browser
+    // a failed run still completes, so that progress$ subscribers and the done callback are never left waiting
+    DlModel.__run(xtrain, ytrain, opt, config, model, options, handle).then(finish, (e: Error) => {
+      finish({
+        stopReason: DlTrainingHandle.STOP_ERROR,
+        epochs: 0,
+        bestEpoch: 0,
+        bestLoss: NaN,
+        restored: false,
+        coefs: [],
+        seed: options && DlRandom.isSeed(options.seed) ? options.seed : NaN,
+        error: e && e.message ? e.message : String(e)
+      });
+    });
+
+    return handle;
+  }
+
+  /**
+   * Compute the loss of the current model over a complete data set
+   *
+   * @param {Array<number>} x x-coordinates
+   *
+   * @param {Array<number>} y y-coordinates
+   *
+   * @param {Array<Variable<dl.Rank.R0>> | IDlRegressor} model Polynomial coefficients or any other regression model
+   *
+   * @param {IDlLossOptions} loss Optional loss selection (defaults to MSE); per-sample weights are applied if their
+   * count matches the number of data points
+   *
+   * @returns {number} Loss over the data set or NaN if the data set is empty
+   */
+  public static evaluate(x: Array<number>,
+                         y: Array<number>,
+                         model: Array< dl.Variable<dl.Rank.R0> > | IDlRegressor,
+                         loss?: IDlLossOptions): number
+  {
+    if (!x || !y || x.length == 0) {
+      return NaN;
     }
 
-    // callback on complete
-    done();
+    const regressor: IDlRegressor = DlModel.__regressor(model);
+
+    const weights: Array<number> = loss && loss.weights && loss.weights.length == x.length ? loss.weights : null;
+
+    const result: dl.Scalar = dl.tidy( () => {
+      const pred: dl.Tensor1D = regressor.predict( dl.tensor1d(x) );
+
+      return DlModel.batchLoss(pred, dl.tensor1d(y), loss, weights ? dl.tensor1d(weights) : undefined);
+    });
+
+    const value: number = result.dataSync()[0];
+    result.dispose();
+
+    return value;
+  }
+
+  /**
+   * Evaluate a model at a set of points in data units
+   *
+   * @param {Array<number>} x x-coordinates in data units
+   *
+   * @param {Array<Variable<dl.Rank.R0>> | IDlRegressor} model Polynomial coefficients or any other regression model
+   *
+   * @param {DlNormalizer} normalizer Optional normalizer used to train the model
+   *
+   * @returns {Array<number>} Model values in data units; this is the only way to plot a non-polynomial model that was
+   * trained in normalized coordinates
+   */
+  public static predict(x: Array<number>,
+                        model: Array< dl.Variable<dl.Rank.R0> > | IDlRegressor,
+                        normalizer?: DlNormalizer): Array<number>
+  {
+    if (!x || x.length == 0) {
+      return [];
+    }
+
+    const regressor: IDlRegressor = DlModel.__regressor(model);
+    const input: Array<number>    = normalizer ? normalizer.normalizeX(x) : x;
+
+    const result: dl.Tensor1D = dl.tidy( () => {return regressor.predict( dl.tensor1d(input) )} );
+    const y: Array<number>    = Array.from( result.dataSync() );
+
+    result.dispose();
+
+    return normalizer ? normalizer.denormalizeY(y) : y;
   }
 
   /**
@@ -104,6 +328,231 @@ export class DlModel
     });
   }
 
+  // the training loop
+  protected static async __run(xtrain: Array<number>,
+                               ytrain: Array<number>,
+                               optimizer: dl.Optimizer,
+                               config: IDlOptimizerConfig,
+                               model: Array< dl.Variable<dl.Rank.R0> > | IDlRegressor,
+                               options: IDlTrainingOptions,
+                               handle: DlTrainingHandle): Promise<IDlTrainingResult>
+  {
+    // yield once, so that the caller can subscribe to progress$ before the first epoch is reported
+    await handle.waitWhilePaused();
+
+    const regressor: IDlRegressor    = DlModel.__regressor(model);
+    const params: Array<dl.Variable> = regressor.params;
+
+    // the normalizer maps coefficients back to data units for the polynomial model only
+    const polynomial: boolean = Array.isArray(model);
+
+    // train in normalized coordinates, but report coefficients in data units
+    const normalizer: DlNormalizer = options.normalizer;
+    if (normalizer)
+    {
+      normalizer.fit(xtrain, ytrain);
+
+      xtrain = normalizer.normalizeX(xtrain);
+      ytrain = normalizer.normalizeY(ytrain);
+    }
+
+    if (regressor.prepare) {
+      regressor.prepare(xtrain);
+    }
+
+    const validateX: Array<number> = normalizer ? normalizer.normalizeX(options.validateX) : options.validateX;
+    const validateY: Array<number> = normalizer ? normalizer.normalizeY(options.validateY) : options.validateY;
+
+    const n: number                  = xtrain.length;
+    const numEpochs: number          = isNaN(options.numEpochs) || options.numEpochs < 1 ? 1 : Math.round(options.numEpochs);
+    const batchSize: number          = DlModel.__batchSize(options.batchSize, n);
+    const order: Array<number>       = xtrain.map( (x: number, i: number): number => {return i} );
+    const startTime: number          = Date.now();
+    const stopping: IDlEarlyStopping = options.earlyStopping;
+    const random: DlRandom           = new DlRandom(options.seed);
+    const minDelta: number           = stopping && !isNaN(stopping.minDelta) ? Math.abs(stopping.minDelta) : 0;
+    const patience: number           = stopping ? DlModel.__patience(stopping.patience) : Infinity;
+
+    let epoch: number;
+    let start: number;
+    let values: Array<number> = [];
+    let trainingLoss: number;
+    let validationLoss: number;
+    let loss: number;
+    let learningRate: number = optimizer['learningRate'];
+
+    // best epoch so far, based on the monitored loss
+    let bestEpoch: number         = 0;
+    let bestLoss: number          = Infinity;
+    let bestValues: Array< Array<number> > = null;
+    let stopReason: string        = DlTrainingHandle.STOP_COMPLETED;
+
+    for (epoch = 0; epoch < numEpochs; epoch++)
+    {
+      if (config && config.schedule)
+      {
+        learningRate = DlOptimizer.learningRate(config.learningRate, config.schedule, epoch, numEpochs);
+
+        DlOptimizer.setLearningRate(optimizer, learningRate);
+      }
+
+      if (options.shuffle) {
+        random.shuffle(order);
+      }
+
+      for (start = 0; start < n && !handle.cancelled; start += batchSize) {
+        DlModel.__step(xtrain, ytrain, order.slice(start, start + batchSize), optimizer, regressor, options.loss,
+          options.regularization);
+      }
+
+      if (handle.cancelled)
+      {
+        stopReason = DlTrainingHandle.STOP_CANCELLED;
+        break;
+      }
+
+      trainingLoss   = DlModel.evaluate(xtrain, ytrain, regressor, options.loss);
+      validationLoss = DlModel.evaluate(validateX, validateY, regressor, DlModel.__unweighted(options.loss));
+      values         = DlModel.__values(params);
+
+      handle.next({
+        epoch: epoch + 1,
+        trainingLoss: trainingLoss,
+        validationLoss: validationLoss,
+        coefs: normalizer && polynomial ? normalizer.toOriginal(values) : values,
+        learningRate: learningRate,
+        elapsed: Date.now() - startTime
+      });
+
+      loss = isNaN(validationLoss) ? trainingLoss : validationLoss;
+      if (loss < bestLoss - minDelta)
+      {
+        bestLoss   = loss;
+        bestEpoch  = epoch + 1;
+        bestValues = DlModel.__snapshot(params);
+      }
+
+      // an improving epoch never stops the run, even with zero patience
+      if (epoch + 1 > bestEpoch && epoch + 1 - bestEpoch >= patience)
+      {
+        stopReason = DlTrainingHandle.STOP_EARLY;
+        epoch++;
+        break;
+      }
+
+      await dl.nextFrame();  // does not block browser
+
+      await handle.waitWhilePaused();
+
+      if (handle.cancelled)
+      {
+        stopReason = DlTrainingHandle.STOP_CANCELLED;
+        epoch++;
+        break;
+      }
+    }
+
+    // roll back to the best checkpoint
+    const restore: boolean = !!(stopping && stopping.restoreBestWeights && bestValues)
+                          && stopReason != DlTrainingHandle.STOP_CANCELLED;
+    if (restore) {
+      params.forEach( (p: dl.Variable, i: number): void => {p.assign( dl.tensor(bestValues[i], p.shape) )} );
+    }
+
+    // the model may be disposed as soon as its run is cancelled, so a cancelled run reports the last completed epoch
+    if (stopReason != DlTrainingHandle.STOP_CANCELLED) {
+      values = DlModel.__values(params);
+    }
+
+    return {
+      stopReason: stopReason,
+      epochs: epoch,
+      bestEpoch: bestEpoch,
+      bestLoss: bestEpoch > 0 ? bestLoss : NaN,
+      restored: restore,
+      coefs: normalizer && polynomial ? normalizer.toOriginal(values) : values,
+      seed: random.seed
+    };
+  }
+
+  // early-stopping patience as a non-negative integer (or Infinity, which never stops)
+  protected static __patience(patience: number): number
+  {
+    if (patience === Infinity) {
+      return Infinity;
+    }
+
+    return isNaN(patience) || !isFinite(patience) ? DlModel.PATIENCE : Math.abs( Math.round(patience) );
+  }
+
+  // wrap polynomial coefficients as a regression model
+  protected static __regressor(model: Array< dl.Variable<dl.Rank.R0> > | IDlRegressor): IDlRegressor
+  {
+    if (!Array.isArray(model)) {
+      return model;
+    }
+
+    return {
+      params: model,
+      predict: (x: dl.Tensor1D): dl.Tensor1D => {return DlModel.batchPredictor(x, model)}
+    };
+  }
+
+  // current parameter values, flattened into a single array
+  protected static __values(params: Array<dl.Variable>): Array<number>
+  {
+    return params.reduce( (values: Array<number>, p: dl.Variable): Array<number> => {
+      return values.concat( Array.from(p.dataSync()) );
+    }, new Array<number>() );
+  }
+
+  // copy of the current parameter values, one array per parameter, for the best-epoch checkpoint
+  protected static __snapshot(params: Array<dl.Variable>): Array< Array<number> >
+  {
+    return params.map( (p: dl.Variable): Array<number> => {return Array.from( p.dataSync() )} );
+  }
+
+  // resolve the requested batch size against the number of training samples; invalid or zero means full batch
+  protected static __batchSize(batchSize: number, n: number): number
+  {
+    if (batchSize === undefined || isNaN(batchSize) || batchSize < 1 || batchSize > n) {
+      return n;
+    }
+
+    return Math.round(batchSize);
+  }
+
+  // sample weights apply to the training set only, so the validation loss uses the same loss without them
+  protected static __unweighted(loss: IDlLossOptions): IDlLossOptions
+  {
+    return loss ? {name: loss.name, delta: loss.delta} : undefined;
+  }
+
+  // one optimizer step over the samples with the supplied indices
+  protected static __step(xtrain: Array<number>,
+                          ytrain: Array<number>,
+                          indices: Array<number>,
+                          optimizer: dl.Optimizer,
+                          model: IDlRegressor,
+                          loss?: IDlLossOptions,
+                          reg?: IDlRegularization): void
+  {
+    const xb: Array<number> = indices.map( (i: number): number => {return xtrain[i]} );
+    const yb: Array<number> = indices.map( (i: number): number => {return ytrain[i]} );
+
+    const weights: Array<number> = loss && loss.weights && loss.weights.length == xtrain.length ? loss.weights : null;
+    const wb: Array<number>      = weights ? indices.map( (i: number): number => {return weights[i]} ) : null;
+
+    const penalize: boolean = DlRegularizer.active(reg);
+
+    optimizer.minimize( () => {
+      const pred: dl.Tensor1D = model.predict( dl.tensor1d(xb) );
+      const value: dl.Scalar  = DlModel.batchLoss(pred, dl.tensor1d(yb), loss, wb ? dl.tensor1d(wb) : undefined);
+
+      return penalize ? value.add( DlRegularizer.penalty(model.params, reg) ) as dl.Scalar : value;
+    }, false, model.params);
+  }
+
   constructor()
   {
     // empty
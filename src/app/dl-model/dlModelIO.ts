@@ -0,0 +1,361 @@
+import * as dl from 'deeplearn';
+
+import { IDlRegressor       } from "./dlModel";
+import { IDlScaling         } from "./dlNormalizer";
+import { IDlOptimizerConfig } from "./dlOptimizer";
+import { DlBasisModel       } from "./dlBasisModel";
+import { DlMlp
+       , IDlMlpConfig       } from "./dlMlp";
+
+/**
+ * Architecture of a saved model
+ */
+export interface IDlModelSpec
+{
+  type: string;             // one of the DlModelIO.POLYNOMIAL, BASIS, or MLP constants
+
+  degree: number;           // polynomial degree, or number of basis functions beyond the constant (zero for an MLP)
+
+  basis?: string;           // basis type (one of the DlBasisModel constants) for a basis-function model
+
+  domain?: IDlScaling;      // input domain of a basis-function model
+
+  mlp?: IDlMlpConfig;       // network architecture of an MLP model
+}
+
+/**
+ * Values of a single model parameter
+ */
+export interface IDlTensorData
+{
+  shape: Array<number>;
+
+  values: Array<number>;    // flattened, row-major
+}
+
+/**
+ * Training metrics at the time a model was saved
+ */
+export interface IDlModelMetrics
+{
+  stopReason: string;       // one of the DlTrainingHandle.STOP_XXX constants
+
+  epochs: number;
+
+  bestEpoch: number;
+
+  bestLoss: number;
+
+  seed: number;             // seed for initialization and shuffling, from which the training run can be replayed
+
+  trainingLoss: number;     // loss over the training set at the last reported epoch (NaN, saved as null, if unknown)
+
+  validationLoss: number;   // loss over the validation set at the last reported epoch (NaN, saved as null, if unknown)
+}
+
+/**
+ * Versioned JSON document describing a trained DL model
+ */
+export interface IDlModelDocument
+{
+  format: string;                     // always DlModelIO.FORMAT
+
+  version: number;                    // document version, DlModelIO.VERSION at the time the model was saved
+
+  created: string;                    // ISO timestamp
+
+  model: IDlModelSpec;
+
+  params: Array<IDlTensorData>;       // trainable parameters, in the model's params order
+
+  coefs: Array<number>;               // coefficients as reported by training (in data units for a polynomial model)
+
+  normalization: {method: string, x: IDlScaling, y: IDlScaling};
+
+  optimizer: IDlOptimizerConfig;
+
+  metrics: IDlModelMetrics;           // null if the model was saved before any training completed
+
+  dataset: {hash: string, count: number};
+}
+
+/**
+ * Export trained DL models to (and import them from) a versioned JSON document, so that a model can be restored and
+ * drawn without retraining.  The document includes a hash of the training data so that a model can be matched with the
+ * data set it was trained on.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+export class DlModelIO
+{
+  public static FORMAT: string  = 'dl-regression-model';
+  public static VERSION: number = 1;
+
+  // model types
+  public static POLYNOMIAL: string = 'polynomial';
+  public static BASIS: string      = 'basis';
+  public static MLP: string        = 'mlp';
+
+  /**
+   * Describe the architecture of a model
+   *
+   * @param {Array<Variable<dl.Rank.R0>> | IDlRegressor} model Polynomial coefficients, DlBasisModel, or DlMlp
+   *
+   * @returns {IDlModelSpec} Model type and architecture, or null for any other kind of model
+   */
+  public static spec(model: Array< dl.Variable<dl.Rank.R0> > | IDlRegressor): IDlModelSpec
+  {
+    if (Array.isArray(model)) {
+      return {type: DlModelIO.POLYNOMIAL, degree: model.length-1};
+    }
+
+    if (model instanceof DlBasisModel) {
+      return {type: DlModelIO.BASIS, degree: model.size-1, basis: model.basis, domain: model.domain};
+    }
+
+    if (model instanceof DlMlp) {
+      return {type: DlModelIO.MLP, degree: 0, mlp: model.config};
+    }
+
+    return null;
+  }
+
+  /**
+   * Copy the current values of a set of model parameters
+   *
+   * @param {Array<Variable>} params Model parameters
+   *
+   * @returns {Array<IDlTensorData>} Shape and values of each parameter
+   */
+  public static tensors(params: Array<dl.Variable>): Array<IDlTensorData>
+  {
+    return params.map( (p: dl.Variable): IDlTensorData => {
+      return {shape: p.shape.slice(), values: Array.from( p.dataSync() )};
+    });
+  }
+
+  /**
+   * Assign saved values to a set of model parameters
+   *
+   * @param {Array<Variable>} params Model parameters
+   *
+   * @param {Array<IDlTensorData>} data Saved parameter values
+   *
+   * @returns {boolean} True if the values were assigned; nothing is assigned unless the number and shape of the saved
+   * parameters match the model
+   */
+  public static assign(params: Array<dl.Variable>, data: Array<IDlTensorData>): boolean
+  {
+    if (!params || !data || params.length != data.length) {
+      return false;
+    }
+
+    const match: boolean = params.every( (p: dl.Variable, i: number): boolean => {
+      return !!data[i] && Array.isArray(data[i].shape) && Array.isArray(data[i].values)
+          && data[i].shape.length == p.shape.length
+          && data[i].shape.every( (d: number, j: number): boolean => {return d == p.shape[j]} )
+          && data[i].values.length == p.size;
+    });
+
+    if (match) {
+      params.forEach( (p: dl.Variable, i: number): void => {p.assign( dl.tensor(data[i].values, p.shape) )} );
+    }
+
+    return match;
+  }
+
+  /**
+   * Create a model and assign saved parameter values
+   *
+   * @param {IDlModelSpec} spec Model type and architecture
+   *
+   * @param {Array<IDlTensorData>} params Saved parameter values
+   *
+   * @returns {Array<Variable<dl.Rank.R0>> | DlBasisModel | DlMlp} Polynomial coefficients, basis-function model, or
+   * network; null if the saved parameters do not match the model architecture (checked before any tensor is created)
+   */
+  public static createModel(spec: IDlModelSpec, params: Array<IDlTensorData>): Array< dl.Variable<dl.Rank.R0> > | DlBasisModel | DlMlp
+  {
+    if ( !DlModelIO.__matches(spec, params) ) {
+      return null;
+    }
+
+    let model: DlBasisModel | DlMlp;
+    let basis: DlBasisModel;
+    let vars: Array< dl.Variable<dl.Rank.R0> >;
+    let i: number;
+
+    switch (spec.type)
+    {
+      case DlModelIO.BASIS:
+        basis = new DlBasisModel(spec.basis, spec.degree+1);
+        basis.setDomain(spec.domain);
+
+        model = basis;
+      break;
+
+      case DlModelIO.MLP:
+        model = new DlMlp(spec.mlp);
+      break;
+
+      default:
+        vars = new Array< dl.Variable<dl.Rank.R0> >();
+
+        for (i = 0; i <= spec.degree; ++i) {
+          vars.push( dl.variable(dl.scalar(0)) );
+        }
+
+        if (DlModelIO.assign(vars, params)) {
+          return vars;
+        }
+
+        vars.forEach( (v: dl.Variable<dl.Rank.R0>): void => {v.dispose()} );
+        return null;
+    }
+
+    if (DlModelIO.assign(model.params, params)) {
+      return model;
+    }
+
+    model.dispose();
+    return null;
+  }
+
+  /**
+   * Hash a data set (32-bit FNV-1a over the text of every coordinate)
+   *
+   * @param {Array<number>} x x-coordinates
+   *
+   * @param {Array<number>} y y-coordinates
+   *
+   * @returns {string} Eight-digit hex hash
+   */
+  public static hash(x: Array<number>, y: Array<number>): string
+  {
+    const text: string = (x ? x.join(',') : '') + ';' + (y ? y.join(',') : '');
+    let h: number      = 0x811c9dc5;
+    let i: number;
+
+    for (i = 0; i < text.length; ++i)
+    {
+      h ^= text.charCodeAt(i);
+      h  = Math.imul(h, 0x01000193) >>> 0;
+    }
+
+    return ('0000000' + h.toString(16)).slice(-8);
+  }
+
+  /**
+   * Convert a model document to JSON
+   *
+   * @param {IDlModelDocument} doc Model document
+   *
+   * @returns {string} Formatted JSON
+   */
+  public static stringify(doc: IDlModelDocument): string
+  {
+    return JSON.stringify(doc, null, 2);
+  }
+
+  /**
+   * Parse and validate a model document
+   *
+   * @param {string} json JSON text
+   *
+   * @returns {IDlModelDocument} Model document or null if the text is not valid JSON, is not a model document, was
+   * written by a newer version, or its parameters do not match its model architecture
+   */
+  public static parse(json: string): IDlModelDocument
+  {
+    let doc: IDlModelDocument;
+
+    try
+    {
+      doc = JSON.parse(json);
+    }
+    catch (e)
+    {
+      return null;
+    }
+
+    const valid: boolean = !!doc && doc.format == DlModelIO.FORMAT
+                        && !isNaN(doc.version) && doc.version <= DlModelIO.VERSION
+                        && DlModelIO.__matches(doc.model, doc.params) && Array.isArray(doc.coefs)
+                        && !!doc.normalization && (!doc.optimizer || typeof doc.optimizer == 'object');
+
+    return valid ? doc : null;
+  }
+
+  // shape of each parameter of a model architecture, in the model's params order; null if the architecture is invalid
+  protected static __shapes(spec: IDlModelSpec): Array< Array<number> >
+  {
+    if (!spec || isNaN(spec.degree) || Math.floor(spec.degree) != spec.degree || spec.degree < 0) {
+      return null;
+    }
+
+    const shapes: Array< Array<number> > = new Array< Array<number> >();
+    let sizes: Array<number>;
+    let i: number;
+
+    switch (spec.type)
+    {
+      case DlModelIO.BASIS:
+        // one weight per basis function, followed by the (trainable) centers of an RBF model
+        for (i = 0; i <= spec.degree; ++i) {
+          shapes.push([]);
+        }
+
+        if (spec.basis == DlBasisModel.RBF)
+        {
+          for (i = 0; i < spec.degree; ++i) {
+            shapes.push([]);
+          }
+        }
+      break;
+
+      case DlModelIO.MLP:
+        if (!spec.mlp || !Array.isArray(spec.mlp.hidden)
+          || !spec.mlp.hidden.every( (w: number): boolean => {return Math.floor(w) == w && w >= 1} )) {
+          return null;
+        }
+
+        // weight matrix and bias vector of each layer, including the single input and output
+        sizes = [1].concat(spec.mlp.hidden, [1]);
+
+        for (i = 1; i < sizes.length; ++i) {
+          shapes.push([sizes[i-1], sizes[i]], [sizes[i]]);
+        }
+      break;
+
+      default:
+        for (i = 0; i <= spec.degree; ++i) {
+          shapes.push([]);
+        }
+    }
+
+    return shapes;
+  }
+
+  // true if saved parameter values have exactly the number and shapes of parameters of a model architecture, which
+  // bounds the size of the model by the size of the document
+  protected static __matches(spec: IDlModelSpec, params: Array<IDlTensorData>): boolean
+  {
+    // every architecture has more parameters than its degree, so a huge degree is rejected before its shapes are listed
+    if (!spec || !Array.isArray(params) || !(spec.degree < params.length)) {
+      return false;
+    }
+
+    const shapes: Array< Array<number> > = DlModelIO.__shapes(spec);
+
+    return !!shapes && shapes.length == params.length && shapes.every( (shape: Array<number>, i: number): boolean => {
+      const p: IDlTensorData = params[i];
+
+      return !!p && Array.isArray(p.shape) && Array.isArray(p.values)
+          && p.shape.length == shape.length
+          && shape.every( (d: number, j: number): boolean => {return p.shape[j] == d} )
+          && p.values.length == shape.reduce( (n: number, d: number): number => {return n*d}, 1 );
+    });
+  }
+}
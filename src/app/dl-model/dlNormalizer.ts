@@ -0,0 +1,228 @@
+import { TSMT$Polynomial } from "../../libs/Polynomial";
+
+/**
+ * Affine scaling of one coordinate, z = (v - offset) / scale
+ */
+export interface IDlScaling
+{
+  offset: number;
+
+  scale: number;
+}
+
+/**
+ * Input/output normalization for DL training.  Fit the normalizer to the training data, train in the normalized space,
+ * then map the learned polynomial coefficients back to the original data coordinates.  Standardization maps each
+ * coordinate to zero mean and unit standard deviation; min-max scaling maps each coordinate onto [-1, 1], which keeps
+ * the powers of x well-behaved for higher-order polynomials.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+export class DlNormalizer
+{
+  // normalization methods
+  public static NONE: string        = 'none';
+  public static STANDARDIZE: string = 'standardize';
+  public static MIN_MAX: string     = 'min-max';
+
+  protected _method: string;
+  protected _x: IDlScaling;
+  protected _y: IDlScaling;
+
+  /**
+   * Construct a new normalizer
+   *
+   * @param {string} method Normalization method (one of the DlNormalizer constants)
+   * @default DlNormalizer.STANDARDIZE
+   */
+  constructor(method: string = DlNormalizer.STANDARDIZE)
+  {
+    this._method = method == DlNormalizer.NONE || method == DlNormalizer.MIN_MAX ? method : DlNormalizer.STANDARDIZE;
+
+    this._x = {offset: 0, scale: 1};
+    this._y = {offset: 0, scale: 1};
+  }
+
+  // apply a scaling
+  protected static __forward(v: Array<number>, s: IDlScaling): Array<number>
+  {
+    return v ? v.map( (value: number): number => {return (value - s.offset) / s.scale} ) : [];
+  }
+
+  // replace invalid offsets by zero and zero or invalid scales by one
+  protected static __valid(s: IDlScaling): IDlScaling
+  {
+    const offset: number = s && !isNaN(s.offset) ? s.offset : 0;
+    const scale: number  = s && !isNaN(s.scale) && s.scale != 0 ? s.scale : 1;
+
+    return {offset: offset, scale: scale};
+  }
+
+  /**
+   * Access the normalization method
+   *
+   * @returns {string}
+   */
+  public get method(): string
+  {
+    return this._method;
+  }
+
+  /**
+   * Access the x-coordinate scaling
+   *
+   * @returns {IDlScaling} A copy of the current x-coordinate offset and scale
+   */
+  public get xScaling(): IDlScaling
+  {
+    return {offset: this._x.offset, scale: this._x.scale};
+  }
+
+  /**
+   * Access the y-coordinate scaling
+   *
+   * @returns {IDlScaling} A copy of the current y-coordinate offset and scale
+   */
+  public get yScaling(): IDlScaling
+  {
+    return {offset: this._y.offset, scale: this._y.scale};
+  }
+
+  /**
+   * Compute the scaling for each coordinate from a data set
+   *
+   * @param {Array<number>} x x-coordinates
+   *
+   * @param {Array<number>} y y-coordinates
+   *
+   * @returns {nothing} Scaling is the identity for method NONE or for empty data
+   */
+  public fit(x: Array<number>, y: Array<number>): void
+  {
+    this._x = this.__scaling(x);
+    this._y = this.__scaling(y);
+  }
+
+  /**
+   * Directly assign the scaling for each coordinate, i.e. to restore a previously fitted normalizer
+   *
+   * @param {IDlScaling} x x-coordinate scaling
+   *
+   * @param {IDlScaling} y y-coordinate scaling
+   *
+   * @returns {nothing} Zero or invalid scales are replaced by one
+   */
+  public setScaling(x: IDlScaling, y: IDlScaling): void
+  {
+    this._x = DlNormalizer.__valid(x);
+    this._y = DlNormalizer.__valid(y);
+  }
+
+  /**
+   * Normalize x-coordinates
+   *
+   * @param {Array<number>} x x-coordinates in data units
+   *
+   * @returns {Array<number>} Normalized x-coordinates
+   */
+  public normalizeX(x: Array<number>): Array<number>
+  {
+    return DlNormalizer.__forward(x, this._x);
+  }
+
+  /**
+   * Normalize y-coordinates
+   *
+   * @param {Array<number>} y y-coordinates in data units
+   *
+   * @returns {Array<number>} Normalized y-coordinates
+   */
+  public normalizeY(y: Array<number>): Array<number>
+  {
+    return DlNormalizer.__forward(y, this._y);
+  }
+
+  /**
+   * Map normalized y-coordinates (i.e. model predictions) back to data units
+   *
+   * @param {Array<number>} y Normalized y-coordinates
+   *
+   * @returns {Array<number>} y-coordinates in data units
+   */
+  public denormalizeY(y: Array<number>): Array<number>
+  {
+    const s: IDlScaling = this._y;
+
+    return y ? y.map( (v: number): number => {return v*s.scale + s.offset} ) : [];
+  }
+
+  /**
+   * Map polynomial coefficients learned in the normalized space back to the original data coordinates
+   *
+   * @param {Array<number>} coefs Coefficients c0, c1, ... of the polynomial in normalized coordinates
+   *
+   * @returns {Array<number>} Coefficients a0, a1, ... such that a0 + a1*x + a2*x^2 + ... in data units is identical to
+   * the normalized model.  The model, y' = sum of c(k)*x'^k with x' = (x - ox)/sx and y = sy*y' + oy, is expanded
+   * with the binomial theorem (TSMT$Polynomial.toMonomial).
+   */
+  public toOriginal(coefs: Array<number>): Array<number>
+  {
+    // y' in powers of x, then y = sy*y' + oy
+    const a: Array<number> = TSMT$Polynomial.toMonomial(coefs, this._x.offset, this._x.scale);
+    const n: number        = a.length;
+    let j: number;
+
+    for (j = 0; j < n; ++j) {
+      a[j] *= this._y.scale;
+    }
+
+    if (n > 0) {
+      a[0] += this._y.offset;
+    }
+
+    return a;
+  }
+
+  // compute the scaling for a single coordinate
+  protected __scaling(v: Array<number>): IDlScaling
+  {
+    const n: number = v ? v.length : 0;
+
+    if (n == 0 || this._method == DlNormalizer.NONE) {
+      return {offset: 0, scale: 1};
+    }
+
+    let i: number;
+
+    if (this._method == DlNormalizer.MIN_MAX)
+    {
+      let min: number = v[0];
+      let max: number = v[0];
+
+      for (i = 1; i < n; ++i)
+      {
+        min = Math.min(min, v[i]);
+        max = Math.max(max, v[i]);
+      }
+
+      return DlNormalizer.__valid( {offset: 0.5*(min + max), scale: 0.5*(max - min)} );
+    }
+
+    let mean: number = 0.0;
+    let s: number    = 0.0;
+
+    for (i = 0; i < n; ++i) {
+      mean += v[i];
+    }
+
+    mean /= n;
+
+    for (i = 0; i < n; ++i) {
+      s += (v[i] - mean)*(v[i] - mean);
+    }
+
+    return DlNormalizer.__valid( {offset: mean, scale: Math.sqrt(s/n)} );
+  }
+}
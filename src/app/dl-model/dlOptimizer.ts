@@ -0,0 +1,187 @@
+import * as dl from 'deeplearn';
+
+/**
+ * Learning-rate schedule, evaluated once per epoch
+ */
+export interface IDlSchedule
+{
+  type: string;              // one of the DlOptimizer.SCHEDULE_XXX constants
+
+  stepSize?: number;         // step decay - number of epochs between drops (default 10)
+
+  gamma?: number;            // step or exponential decay - multiplicative factor per drop or per epoch (default 0.5 or 0.99)
+
+  minLearningRate?: number;  // cosine - learning rate at the end of the run (default 0)
+
+  warmupEpochs?: number;     // optional linear warm-up from zero to the base rate; the schedule starts after warm-up
+}
+
+/**
+ * Optimizer selection and hyperparameters; only those relevant to the selected optimizer are used, others are ignored
+ */
+export interface IDlOptimizerConfig
+{
+  type: string;              // one of the DlOptimizer.SGD, MOMENTUM, ADAGRAD, ADAM, or RMSPROP constants
+
+  learningRate: number;      // base learning rate
+
+  momentum?: number;         // momentum or RMSProp momentum (default 0.9 for momentum, 0 for RMSProp)
+
+  beta1?: number;            // Adam first-moment decay (default 0.9)
+
+  beta2?: number;            // Adam second-moment decay (default 0.999)
+
+  decay?: number;            // RMSProp mean-square decay (default 0.9)
+
+  epsilon?: number;          // Adam/RMSProp numerical-stability constant (default 1e-8)
+
+  initialAccumulatorValue?: number;   // Adagrad initial accumulator (default 0.1)
+
+  schedule?: IDlSchedule;    // optional learning-rate schedule; constant rate if omitted
+}
+
+/**
+ * Construct deeplearn optimizers from a configuration object and apply learning-rate schedules during training
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+export class DlOptimizer
+{
+  // optimizer types
+  public static SGD: string      = 'sgd';
+  public static MOMENTUM: string = 'momentum';
+  public static ADAGRAD: string  = 'adagrad';
+  public static ADAM: string     = 'adam';
+  public static RMSPROP: string  = 'rmsprop';
+
+  // learning-rate schedules
+  public static SCHEDULE_CONSTANT: string    = 'constant';
+  public static SCHEDULE_STEP: string        = 'step';
+  public static SCHEDULE_EXPONENTIAL: string = 'exponential';
+  public static SCHEDULE_COSINE: string      = 'cosine';
+
+  /**
+   * Create an optimizer from a configuration
+   *
+   * @param {IDlOptimizerConfig} config Optimizer type and hyperparameters
+   *
+   * @returns {Optimizer} New optimizer; RMSProp is used if the type is not recognized.  The caller is responsible for
+   * disposing the optimizer.
+   */
+  public static create(config: IDlOptimizerConfig): dl.Optimizer
+  {
+    const lr: number = DlOptimizer.__valid(config.learningRate, 0.001);
+
+    switch (config.type)
+    {
+      case DlOptimizer.SGD:
+        return dl.train.sgd(lr);
+
+      case DlOptimizer.MOMENTUM:
+        return dl.train.momentum(lr, DlOptimizer.__valid(config.momentum, 0.9));
+
+      case DlOptimizer.ADAGRAD:
+        return dl.train.adagrad(lr, DlOptimizer.__valid(config.initialAccumulatorValue, 0.1));
+
+      case DlOptimizer.ADAM:
+        return dl.train.adam(lr, DlOptimizer.__valid(config.beta1, 0.9), DlOptimizer.__valid(config.beta2, 0.999),
+          DlOptimizer.__valid(config.epsilon, 1e-8));
+
+      default:
+        return dl.train.rmsprop(lr, DlOptimizer.__valid(config.decay, 0.9), DlOptimizer.__valid(config.momentum, 0),
+          DlOptimizer.__valid(config.epsilon, 1e-8));
+    }
+  }
+
+  /**
+   * Compute the scheduled learning rate for an epoch
+   *
+   * @param {number} baseRate Base learning rate
+   *
+   * @param {IDlSchedule} schedule Learning-rate schedule (constant rate if undefined)
+   *
+   * @param {number} epoch Zero-based epoch number
+   *
+   * @param {number} numEpochs Total number of epochs in the run
+   *
+   * @returns {number} Learning rate for the specified epoch
+   */
+  public static learningRate(baseRate: number, schedule: IDlSchedule, epoch: number, numEpochs: number): number
+  {
+    if (!schedule) {
+      return baseRate;
+    }
+
+    const warmup: number = schedule.warmupEpochs > 0 ? Math.round(schedule.warmupEpochs) : 0;
+    if (epoch < warmup) {
+      return baseRate * (epoch + 1) / (warmup + 1);
+    }
+
+    // remaining schedule runs from the end of warm-up
+    const e: number = epoch - warmup;
+    const n: number = Math.max(1, numEpochs - warmup);
+
+    let minRate: number;
+
+    switch (schedule.type)
+    {
+      case DlOptimizer.SCHEDULE_STEP:
+        return baseRate * Math.pow( DlOptimizer.__valid(schedule.gamma, 0.5), Math.floor(e / DlOptimizer.__valid(schedule.stepSize, 10)) );
+
+      case DlOptimizer.SCHEDULE_EXPONENTIAL:
+        return baseRate * Math.pow( DlOptimizer.__valid(schedule.gamma, 0.99), e );
+
+      case DlOptimizer.SCHEDULE_COSINE:
+        minRate = schedule.minLearningRate > 0 ? Math.min(schedule.minLearningRate, baseRate) : 0;
+
+        return minRate + 0.5*(baseRate - minRate)*(1.0 + Math.cos(Math.PI * Math.min(e, n) / n));
+
+      default:
+        return baseRate;
+    }
+  }
+
+  /**
+   * Change the learning rate of an existing optimizer without losing its accumulated state
+   *
+   * @param {Optimizer} optimizer Optimizer created by this class (or any of the deeplearn SGD, momentum, Adagrad, Adam
+   * or RMSProp optimizers)
+   *
+   * @param {number} learningRate New learning rate
+   *
+   * @returns {nothing}
+   */
+  public static setLearningRate(optimizer: dl.Optimizer, learningRate: number): void
+  {
+    if (optimizer instanceof dl.SGDOptimizer)
+    {
+      // includes momentum
+      optimizer.setLearningRate(learningRate);
+      return;
+    }
+
+    // the adaptive optimizers in deeplearn 0.5.0 have no setter; the learning rate is baked into a kept scalar, 'c', at
+    // construction.  RMSProp stores the rate as-is, the others store its negative.
+    const c: dl.Scalar = optimizer['c'];
+    if (!c) {
+      return;
+    }
+
+    const sign: number = optimizer instanceof dl.RMSPropOptimizer ? 1 : -1;
+
+    c.dispose();
+
+    optimizer['c']            = dl.keep( dl.scalar(sign*learningRate) );
+    optimizer['learningRate'] = learningRate;
+  }
+
+  // invalid or non-positive hyperparameters are replaced by the default (zero is allowed only if it is the default)
+  protected static __valid(value: number, defaultValue: number): number
+  {
+    return value === undefined || value == null || isNaN(value) || value < 0 || (value == 0 && defaultValue != 0)
+      ? defaultValue
+      : value;
+  }
+}
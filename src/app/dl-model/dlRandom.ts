@@ -0,0 +1,176 @@
+import { TSMT$Deviates } from "../../libs/Deviates";
+
+/**
+ * Seeded source of pseudo-random numbers for DL parameter initialization and shuffling, so that a training run can be
+ * replayed exactly from its seed.  Values are drawn from a single TSMT$Deviates sequence, so the same seed always
+ * produces the same initial parameters and the same shuffles, provided they are requested in the same order.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+export class DlRandom
+{
+  // parameter initializers
+  public static ZEROS: string   = 'zeros';
+  public static UNIFORM: string = 'uniform';   // uniform on +/- 1/sqrt(fanIn)
+  public static NORMAL: string  = 'normal';    // normal with zero mean and standard deviation 1/sqrt(fanIn)
+  public static XAVIER: string  = 'xavier';    // uniform on +/- sqrt(6/(fanIn + fanOut))
+
+  // seeds are positive integers below the period of the underlying generator
+  public static MAX_SEED: number = 2147483646;
+
+  protected _seed: number;
+  protected _deviates: TSMT$Deviates;
+
+  /**
+   * Construct a new generator
+   *
+   * @param {number} seed Optional seed, an integer in [1, DlRandom.MAX_SEED]; a new seed is chosen (see randomSeed) if
+   * the seed is omitted or invalid
+   */
+  constructor(seed?: number)
+  {
+    this._seed     = DlRandom.isSeed(seed) ? seed : DlRandom.randomSeed();
+    this._deviates = new TSMT$Deviates();
+
+    // initialize the sequence; every value is drawn from the same sequence from this point on
+    this._deviates.uniform(this._seed, true);
+  }
+
+  /**
+   * Is a value usable as a seed?
+   *
+   * @param {number} seed Candidate seed
+   *
+   * @returns {boolean} True if the seed is an integer in [1, DlRandom.MAX_SEED]
+   */
+  public static isSeed(seed: number): boolean
+  {
+    return seed !== undefined && seed !== null && !isNaN(seed) && Math.floor(seed) == seed
+        && seed >= 1 && seed <= DlRandom.MAX_SEED;
+  }
+
+  /**
+   * Choose a new seed, for runs that do not specify one; the seed is recorded so that the run can be replayed
+   *
+   * @returns {number} Integer in [1, DlRandom.MAX_SEED]
+   */
+  public static randomSeed(): number
+  {
+    return 1 + Math.floor( Math.random()*DlRandom.MAX_SEED );
+  }
+
+  /**
+   * Access the seed
+   *
+   * @returns {number}
+   */
+  public get seed(): number
+  {
+    return this._seed;
+  }
+
+  /**
+   * Draw a uniform deviate
+   *
+   * @param {number} min Lower limit
+   * @default 0
+   *
+   * @param {number} max Upper limit
+   * @default 1
+   *
+   * @returns {number} Uniform deviate in (min, max)
+   */
+  public uniform(min: number = 0, max: number = 1): number
+  {
+    return min + (max - min)*this._deviates.uniform(this._seed, false);
+  }
+
+  /**
+   * Draw a normal deviate
+   *
+   * @param {number} mu Mean
+   * @default 0
+   *
+   * @param {number} sigma Standard deviation
+   * @default 1
+   *
+   * @returns {number} Normal deviate with the supplied mean and standard deviation
+   */
+  public normal(mu: number = 0, sigma: number = 1): number
+  {
+    return mu + sigma*this._deviates.normal(this._seed, 0, 1, false);
+  }
+
+  /**
+   * Initial values for a set of model parameters
+   *
+   * @param {string} method Initializer (one of the DlRandom.ZEROS, UNIFORM, NORMAL, or XAVIER constants); uniform is
+   * used if the method is not recognized
+   *
+   * @param {number} count Number of values
+   *
+   * @param {number} fanIn Number of inputs to the layer that owns the parameters (defaults to count, i.e. the weights
+   * of a linear model)
+   *
+   * @param {number} fanOut Number of outputs of that layer
+   * @default 1
+   *
+   * @returns {Array<number>} Initial values
+   */
+  public values(method: string, count: number, fanIn?: number, fanOut: number = 1): Array<number>
+  {
+    const n: number        = isNaN(count) || count < 0 ? 0 : Math.round(count);
+    const fi: number       = isNaN(fanIn) || fanIn < 1 ? Math.max(n, 1) : fanIn;
+    const fo: number       = isNaN(fanOut) || fanOut < 1 ? 1 : fanOut;
+    const v: Array<number> = new Array<number>();
+
+    let limit: number;
+    let i: number;
+
+    switch (method)
+    {
+      case DlRandom.ZEROS:
+        for (i = 0; i < n; ++i) {
+          v.push(0);
+        }
+      break;
+
+      case DlRandom.NORMAL:
+        for (i = 0; i < n; ++i) {
+          v.push( this.normal(0, 1.0/Math.sqrt(fi)) );
+        }
+      break;
+
+      default:
+        limit = method == DlRandom.XAVIER ? Math.sqrt( 6.0/(fi + fo) ) : 1.0/Math.sqrt(fi);
+
+        for (i = 0; i < n; ++i) {
+          v.push( this.uniform(-limit, limit) );
+        }
+    }
+
+    return v;
+  }
+
+  /**
+   * Shuffle an array in place (Fisher-Yates)
+   *
+   * @param {Array<number>} order Array to shuffle, i.e. sample indices
+   *
+   * @returns {nothing}
+   */
+  public shuffle(order: Array<number>): void
+  {
+    let i: number, j: number, tmp: number;
+
+    for (i = order.length-1; i > 0; i--)
+    {
+      j        = Math.min( Math.floor( this.uniform()*(i+1) ), i );
+      tmp      = order[i];
+      order[i] = order[j];
+      order[j] = tmp;
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import * as dl from 'deeplearn';
+
+/**
+ * Coefficient penalties for a training run; supply l2 only for ridge, l1 only for lasso, or both for elastic net
+ */
+export interface IDlRegularization
+{
+  l1?: number;               // lasso (absolute-value) penalty strength (default 0)
+
+  l2?: number;               // ridge (squared) penalty strength (default 0)
+
+  weights?: Array<number>;   // optional per-parameter penalty weights (default 1 for every parameter); use zero to leave
+                             // a parameter, such as the constant term, unpenalized
+}
+
+/**
+ * Ridge, lasso, and elastic-net penalties on model parameters.  The penalty, sum of w(i)*(l1*|p(i)| + l2*p(i)^2) over
+ * all parameters, is added to the data loss during training to shrink coefficients and tame the oscillation of
+ * higher-order models.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+export class DlRegularizer
+{
+  /**
+   * Is a regularization specification active, i.e. does it produce a nonzero penalty?
+   *
+   * @param {IDlRegularization} reg Regularization specification
+   *
+   * @returns {boolean} True if either the l1 or l2 strength is positive
+   */
+  public static active(reg: IDlRegularization): boolean
+  {
+    return !!reg && (DlRegularizer.__strength(reg.l1) > 0 || DlRegularizer.__strength(reg.l2) > 0);
+  }
+
+  /**
+   * Compute the penalty for a set of model parameters
+   *
+   * @param {Array<Tensor>} params Model parameters
+   *
+   * @param {IDlRegularization} reg Regularization specification
+   *
+   * @returns {Scalar} Total penalty (zero if the specification is not active)
+   */
+  public static penalty(params: Array<dl.Tensor>, reg: IDlRegularization): dl.Scalar
+  {
+    if (!DlRegularizer.active(reg)) {
+      return dl.scalar(0);
+    }
+
+    const l1: number = DlRegularizer.__strength(reg.l1);
+    const l2: number = DlRegularizer.__strength(reg.l2);
+
+    let total: dl.Scalar = dl.scalar(0);
+    let w: number;
+
+    params.forEach( (p: dl.Tensor, i: number): void => {
+      w = reg.weights && i < reg.weights.length && !isNaN(reg.weights[i]) ? Math.abs(reg.weights[i]) : 1.0;
+
+      if (w == 0) {
+        return;
+      }
+
+      if (l1 > 0) {
+        total = total.add( p.abs().sum().mul(dl.scalar(w*l1)) );
+      }
+
+      if (l2 > 0) {
+        total = total.add( p.square().sum().mul(dl.scalar(w*l2)) );
+      }
+    });
+
+    return total;
+  }
+
+  // invalid or negative strengths are treated as zero
+  protected static __strength(value: number): number
+  {
+    return value === undefined || isNaN(value) || value < 0 ? 0 : value;
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Web Worker entry point for DL training, used by DlTrainingRunner.  This file is bundled separately from the
+ * application (npm run build:worker) into src/assets/workers/dl-training.worker.js.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+import { DlTrainingWorker
+       , IDlWorkerScope   } from "./dlTrainingWorker";
+
+// the worker is compiled against the DOM library, where self is typed as a Window rather than a worker global scope
+const scope: IDlWorkerScope = self as Object as IDlWorkerScope;
+
+// workers have no requestAnimationFrame, which dl.nextFrame() uses to yield between epochs; a zero-delay timeout
+// serves the same purpose and lets cancel and pause messages through
+if (!scope.requestAnimationFrame) {
+  scope.requestAnimationFrame = (callback: FrameRequestCallback): number => {return setTimeout(callback, 0)};
+}
+
+export const worker: DlTrainingWorker = new DlTrainingWorker(scope);
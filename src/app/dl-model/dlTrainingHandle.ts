@@ -0,0 +1,216 @@
+import { Observable } from "rxjs/Observable";
+import { Subject    } from "rxjs/Subject";
+
+/**
+ * Snapshot of a training run, emitted at the end of every epoch
+ */
+export interface IDlTrainingProgress
+{
+  epoch: number;            // epoch number (one-based)
+
+  trainingLoss: number;     // loss over the full training set (data loss only, excluding any regularization penalty)
+
+  validationLoss: number;   // loss over the validation set (NaN if there is no validation set)
+
+  coefs: Array<number>;     // current model coefficients (in data units if training is normalized)
+
+  learningRate: number;     // learning rate used for this epoch
+
+  elapsed: number;          // time since training started (in msec)
+}
+
+/**
+ * Summary of a completed training run
+ */
+export interface IDlTrainingResult
+{
+  stopReason: string;   // one of the DlTrainingHandle.STOP_XXX constants
+
+  epochs: number;       // number of epochs actually run
+
+  bestEpoch: number;    // epoch with the lowest monitored loss (zero if no epoch completed)
+
+  bestLoss: number;     // lowest monitored loss (validation loss if a validation set was supplied, training loss otherwise)
+
+  restored: boolean;    // true if the model parameters were rolled back to those at the best epoch
+
+  coefs: Array<number>; // final model coefficients (in data units if training is normalized); a cancelled run reports
+                        // those at the last completed epoch, if any
+
+  seed: number;         // shuffling seed; the run is replayed exactly by training the same initial parameters with
+                        // the same options and this seed
+
+  error?: string;       // reason the run failed if stopReason is STOP_ERROR; undefined otherwise
+}
+
+/**
+ * Handle to a DL training run in progress.  Subscribe to progress$ for per-epoch updates (the stream completes when
+ * training ends, for any reason) and use cancel(), pause(), and resume() to control the run from the UI.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+export class DlTrainingHandle
+{
+  // reasons for training to stop
+  public static STOP_COMPLETED: string = 'completed';       // all requested epochs were run
+  public static STOP_EARLY: string     = 'early-stopping';  // monitored loss failed to improve within the patience window
+  public static STOP_CANCELLED: string = 'cancelled';       // cancel() was called
+  public static STOP_ERROR: string     = 'error';           // the training loop threw; see the result's error property
+
+  public progress$: Observable<IDlTrainingProgress>;
+
+  protected _progressSubject: Subject<IDlTrainingProgress>;
+  protected _cancelled: boolean;
+  protected _paused: boolean;
+  protected _resume: Function;   // resolves the promise the training loop waits on while paused
+  protected _result: IDlTrainingResult;
+  protected _control: (command: string) => void;
+
+  /**
+   * Construct a new training handle
+   *
+   * @param {Function} control Optional function called with 'cancel', 'pause', or 'resume' whenever the run is controlled
+   * through this handle, i.e. to forward control to a training run in a Web Worker
+   */
+  constructor(control?: (command: string) => void)
+  {
+    this._progressSubject = new Subject<IDlTrainingProgress>();
+    this.progress$        = this._progressSubject.asObservable();
+
+    this._cancelled = false;
+    this._paused    = false;
+    this._resume    = null;
+    this._result    = null;
+    this._control   = control;
+  }
+
+  /**
+   * Access the result of this run
+   *
+   * @returns {IDlTrainingResult} Training summary, including the reason training stopped, or null if training is still
+   * in progress
+   */
+  public get result(): IDlTrainingResult
+  {
+    return this._result;
+  }
+
+  /**
+   * Access the cancellation state of this run
+   *
+   * @returns {boolean} True if cancel() has been called
+   */
+  public get cancelled(): boolean
+  {
+    return this._cancelled;
+  }
+
+  /**
+   * Access the pause state of this run
+   *
+   * @returns {boolean} True if the run is currently paused
+   */
+  public get paused(): boolean
+  {
+    return this._paused;
+  }
+
+  /**
+   * Stop training at the end of the current optimizer step; model parameters retain their current values
+   *
+   * @returns {nothing}
+   */
+  public cancel(): void
+  {
+    this._cancelled = true;
+
+    if (this._control) {
+      this._control('cancel');
+    }
+
+    // a paused run has to wake up in order to notice that it was cancelled
+    this.resume();
+  }
+
+  /**
+   * Suspend training at the end of the current epoch
+   *
+   * @returns {nothing}
+   */
+  public pause(): void
+  {
+    if (!this._cancelled)
+    {
+      this._paused = true;
+
+      if (this._control) {
+        this._control('pause');
+      }
+    }
+  }
+
+  /**
+   * Continue a paused training run
+   *
+   * @returns {nothing}
+   */
+  public resume(): void
+  {
+    this._paused = false;
+
+    if (this._control && !this._cancelled) {
+      this._control('resume');
+    }
+
+    if (this._resume)
+    {
+      const resume: Function = this._resume;
+      this._resume           = null;
+
+      resume();
+    }
+  }
+
+  /**
+   * Wait while the run is paused (used by the training loop)
+   *
+   * @returns {Promise<void>} Resolves immediately if the run is not paused, otherwise on the next call to resume() or cancel()
+   */
+  public waitWhilePaused(): Promise<void>
+  {
+    if (!this._paused) {
+      return Promise.resolve();
+    }
+
+    return new Promise<void>( (resolve: Function) => {this._resume = resolve} );
+  }
+
+  /**
+   * Emit a progress update (used by the training loop)
+   *
+   * @param {IDlTrainingProgress} progress Current epoch, losses, coefficients, and elapsed time
+   *
+   * @returns {nothing}
+   */
+  public next(progress: IDlTrainingProgress): void
+  {
+    this._progressSubject.next(progress);
+  }
+
+  /**
+   * Record the training result and complete the progress stream (used by the training loop)
+   *
+   * @param {IDlTrainingResult} result Training summary
+   *
+   * @returns {nothing}
+   */
+  public complete(result: IDlTrainingResult): void
+  {
+    this._paused = false;
+    this._result = result;
+
+    this._progressSubject.complete();
+  }
+}
@@ -0,0 +1,313 @@
+import * as dl from 'deeplearn';
+
+import { DlModel
+       , IDlRegressor
+       , IDlTrainingOptions } from "./dlModel";
+import { DlTrainingHandle
+       , IDlTrainingProgress
+       , IDlTrainingResult  } from "./dlTrainingHandle";
+import { IDlOptimizerConfig } from "./dlOptimizer";
+import { IDlScaling         } from "./dlNormalizer";
+import { DlBasisModel       } from "./dlBasisModel";
+import { DlModelIO
+       , IDlModelSpec
+       , IDlTensorData      } from "./dlModelIO";
+
+/**
+ * Message exchanged between DlTrainingRunner and a training worker; every message for a run carries the id from its
+ * start message
+ */
+export interface IDlWorkerMessage
+{
+  type: string;                           // one of the DlTrainingRunner.MSG_XXX constants
+
+  id: number;                             // run id
+
+  x?: Array<number>;                      // start - training set
+
+  y?: Array<number>;
+
+  optimizer?: IDlOptimizerConfig;         // start
+
+  options?: IDlTrainingOptions;           // start - training options, less the normalizer
+
+  model?: IDlModelSpec;                   // start, progress, result - model architecture (and basis domain)
+
+  params?: Array<IDlTensorData>;          // start, progress, result - current parameter values
+
+  normalization?: {method: string, x: IDlScaling, y: IDlScaling};   // start, progress, result - the worker refits the
+                                                                    // scaling to the training set
+
+  progress?: IDlTrainingProgress;         // progress
+
+  result?: IDlTrainingResult;             // result
+
+  message?: string;                       // error
+}
+
+// a training run started through the runner
+interface IDlRun
+{
+  message: IDlWorkerMessage;                              // start message
+  model: Array< dl.Variable<dl.Rank.R0> > | IDlRegressor;
+  options: IDlTrainingOptions;
+  done: Function;
+  handle: DlTrainingHandle;                               // handle returned to the caller
+  local: DlTrainingHandle;                                // main-thread run, after falling back from the worker
+}
+
+/**
+ * Run DL training in a Web Worker so that training does not compete with change detection and rendering.  The runner
+ * has the same interface as DlModel.train; progress is streamed back from the worker and model parameters are copied
+ * back to the caller's model at the end of every epoch (but never after the run is cancelled, so a model may be
+ * disposed as soon as its run is cancelled).  Training runs on the main thread if workers are not available or if the
+ * model cannot be described by DlModelIO.  A run the worker cannot start is restarted on the main thread by itself, and
+ * the worker remains in use for other runs; if the worker itself fails, every run in progress is restarted on the main
+ * thread from its last reported parameters, as are all subsequent runs.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+export class DlTrainingRunner
+{
+  // message types
+  public static MSG_START: string    = 'start';      // runner -> worker, begin a run
+  public static MSG_PROGRESS: string = 'progress';   // worker -> runner, end of an epoch
+  public static MSG_CANCEL: string   = 'cancel';     // runner -> worker
+  public static MSG_PAUSE: string    = 'pause';      // runner -> worker
+  public static MSG_RESUME: string   = 'resume';     // runner -> worker
+  public static MSG_RESULT: string   = 'result';     // worker -> runner, run complete (for any reason)
+  public static MSG_ERROR: string    = 'error';      // worker -> runner, the run could not be started
+
+  protected _worker: Worker;
+  protected _id: number;
+  protected _runs: {[id: number]: IDlRun};
+
+  /**
+   * Construct a new runner
+   *
+   * @param {string} workerUrl Optional URL of the training worker script; all training runs on the main thread if this
+   * is omitted or the environment does not support workers
+   */
+  constructor(workerUrl?: string)
+  {
+    this._worker = null;
+    this._id     = 0;
+    this._runs   = {};
+
+    if (workerUrl && typeof Worker !== 'undefined')
+    {
+      try
+      {
+        this._worker = new Worker(workerUrl);
+      }
+      catch (e)
+      {
+        this._worker = null;
+      }
+    }
+
+    if (this._worker)
+    {
+      this._worker.addEventListener('message', (event: MessageEvent) => {this.__onMessage(event.data)});
+      this._worker.addEventListener('error', () => {this.__fallback()});
+    }
+  }
+
+  /**
+   * Is training performed in a worker?
+   *
+   * @returns {boolean} False if the runner has fallen back to the main thread
+   */
+  public get usingWorker(): boolean
+  {
+    return !!this._worker;
+  }
+
+  /**
+   * Train a model; arguments and return are the same as DlModel.train, except that the optimizer is always supplied
+   * as a configuration
+   *
+   * @param {Array<number>} xtrain x-coordinates of the training set
+   *
+   * @param {Array<number>} ytrain y-coordinates of the training set
+   *
+   * @param {IDlOptimizerConfig} optimizer Optimizer configuration
+   *
+   * @param {Array<Variable<dl.Rank.R0>> | IDlRegressor} model Polynomial coefficients or any other regression model
+   *
+   * @param {IDlTrainingOptions} options Training options
+   *
+   * @param {Function} done Optional callback executed on completion; the callback is passed the IDlTrainingResult
+   *
+   * @returns {DlTrainingHandle} Handle that streams per-epoch progress and allows the run to be cancelled, paused, or
+   * resumed
+   */
+  public train(xtrain: Array<number>,
+               ytrain: Array<number>,
+               optimizer: IDlOptimizerConfig,
+               model: Array< dl.Variable<dl.Rank.R0> > | IDlRegressor,
+               options: IDlTrainingOptions,
+               done?: Function): DlTrainingHandle
+  {
+    const spec: IDlModelSpec = DlModelIO.spec(model);
+
+    if (!this._worker || !spec) {
+      return DlModel.train(xtrain, ytrain, optimizer, model, options, done);
+    }
+
+    const id: number = ++this._id;
+
+    const message: IDlWorkerMessage = {
+      type: DlTrainingRunner.MSG_START,
+      id: id,
+      x: xtrain,
+      y: ytrain,
+      optimizer: optimizer,
+      options: Object.assign({}, options, {normalizer: undefined}),
+      model: spec,
+      params: DlModelIO.tensors(Array.isArray(model) ? model : model.params),
+      normalization: options.normalizer
+        ? {method: options.normalizer.method, x: options.normalizer.xScaling, y: options.normalizer.yScaling}
+        : undefined
+    };
+
+    const run: IDlRun = {
+      message: message,
+      model: model,
+      options: options,
+      done: done,
+      handle: null,
+      local: null
+    };
+
+    run.handle = new DlTrainingHandle( (command: string) => {this.__control(run, command)} );
+
+    this._runs[id] = run;
+    this._worker.postMessage(message);
+
+    return run.handle;
+  }
+
+  /**
+   * Terminate the worker; runs in progress are restarted on the main thread, as are all subsequent runs
+   *
+   * @returns {nothing}
+   */
+  public dispose(): void
+  {
+    this.__fallback();
+  }
+
+  // forward control of a run to the worker, or to the main-thread run after falling back
+  protected __control(run: IDlRun, command: string): void
+  {
+    if (run.local)
+    {
+      run.local[command]();
+      return;
+    }
+
+    if (this._worker) {
+      this._worker.postMessage({type: command, id: run.message.id});
+    }
+  }
+
+  // process a message from the worker
+  protected __onMessage(message: IDlWorkerMessage): void
+  {
+    const run: IDlRun = message ? this._runs[message.id] : null;
+
+    if (!run || run.local) {
+      return;
+    }
+
+    switch (message.type)
+    {
+      case DlTrainingRunner.MSG_PROGRESS:
+        this.__sync(run, message);
+
+        run.handle.next(message.progress);
+      break;
+
+      case DlTrainingRunner.MSG_RESULT:
+        this.__sync(run, message);
+
+        delete this._runs[message.id];
+
+        run.handle.complete(message.result);
+
+        if (run.done) {
+          run.done(message.result);
+        }
+      break;
+
+      // only this run failed to start in the worker
+      case DlTrainingRunner.MSG_ERROR:
+        delete this._runs[message.id];
+
+        this.__runLocally(run);
+      break;
+    }
+  }
+
+  // copy parameters, normalization, and basis domain from the worker into the caller's model (unless cancelled)
+  protected __sync(run: IDlRun, message: IDlWorkerMessage): void
+  {
+    if (run.handle.cancelled) {
+      return;
+    }
+
+    const model: Array< dl.Variable<dl.Rank.R0> > | IDlRegressor = run.model;
+
+    DlModelIO.assign(Array.isArray(model) ? model : model.params, message.params);
+
+    if (model instanceof DlBasisModel && message.model) {
+      model.setDomain(message.model.domain);
+    }
+
+    if (run.options.normalizer && message.normalization) {
+      run.options.normalizer.setScaling(message.normalization.x, message.normalization.y);
+    }
+  }
+
+  // stop using the worker and restart any runs in progress on the main thread
+  protected __fallback(): void
+  {
+    if (this._worker)
+    {
+      this._worker.terminate();
+      this._worker = null;
+    }
+
+    Object.keys(this._runs).forEach( (key: string): void => {
+      const run: IDlRun = this._runs[key];
+      delete this._runs[key];
+
+      this.__runLocally(run);
+    });
+  }
+
+  // restart a run on the main thread, forwarding its progress, result, and current control state
+  protected __runLocally(run: IDlRun): void
+  {
+    run.local = DlModel.train(run.message.x, run.message.y, run.message.optimizer, run.model, run.options,
+      (result: IDlTrainingResult) => {
+        run.handle.complete(result);
+
+        if (run.done) {
+          run.done(result);
+        }
+      });
+
+    run.local.progress$.subscribe( (progress: IDlTrainingProgress) => {run.handle.next(progress)} );
+
+    if (run.handle.cancelled) {
+      run.local.cancel();
+    }
+    else if (run.handle.paused) {
+      run.local.pause();
+    }
+  }
+}
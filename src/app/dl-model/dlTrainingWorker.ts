@@ -0,0 +1,138 @@
+import * as dl from 'deeplearn';
+
+import { DlModel
+       , IDlTrainingOptions } from "./dlModel";
+import { DlTrainingHandle
+       , IDlTrainingProgress
+       , IDlTrainingResult  } from "./dlTrainingHandle";
+import { DlNormalizer       } from "./dlNormalizer";
+import { DlModelIO          } from "./dlModelIO";
+import { DlBasisModel       } from "./dlBasisModel";
+import { DlMlp              } from "./dlMlp";
+import { DlTrainingRunner
+       , IDlWorkerMessage   } from "./dlTrainingRunner";
+
+/**
+ * The parts of a worker's global scope used by the training worker
+ */
+export interface IDlWorkerScope
+{
+  postMessage(message: IDlWorkerMessage): void;
+
+  addEventListener(type: string, listener: (event: MessageEvent) => void): void;
+
+  requestAnimationFrame?: (callback: FrameRequestCallback) => number;   // absent in workers; see dlTraining.worker.ts
+}
+
+/**
+ * Worker side of the DlTrainingRunner message protocol.  Each start message creates the model described in the
+ * message and trains it with DlModel.train; progress, final parameters, and the result are posted back to the runner.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+export class DlTrainingWorker
+{
+  protected _scope: IDlWorkerScope;
+  protected _runs: {[id: number]: DlTrainingHandle};
+
+  /**
+   * Construct a new training worker and begin listening for messages
+   *
+   * @param {IDlWorkerScope} scope Worker global scope
+   */
+  constructor(scope: IDlWorkerScope)
+  {
+    this._scope = scope;
+    this._runs  = {};
+
+    this._scope.addEventListener('message', (event: MessageEvent) => {this.__onMessage(event.data)});
+  }
+
+  // process a message from the runner
+  protected __onMessage(message: IDlWorkerMessage): void
+  {
+    if (!message) {
+      return;
+    }
+
+    const handle: DlTrainingHandle = this._runs[message.id];
+
+    switch (message.type)
+    {
+      case DlTrainingRunner.MSG_START:
+        this.__start(message);
+      break;
+
+      case DlTrainingRunner.MSG_CANCEL:
+        if (handle) {
+          handle.cancel();
+        }
+      break;
+
+      case DlTrainingRunner.MSG_PAUSE:
+        if (handle) {
+          handle.pause();
+        }
+      break;
+
+      case DlTrainingRunner.MSG_RESUME:
+        if (handle) {
+          handle.resume();
+        }
+      break;
+    }
+  }
+
+  // begin a training run
+  protected __start(message: IDlWorkerMessage): void
+  {
+    const id: number = message.id;
+    const model: Array< dl.Variable<dl.Rank.R0> > | DlBasisModel | DlMlp = DlModelIO.createModel(message.model, message.params);
+
+    if (!model)
+    {
+      this._scope.postMessage({type: DlTrainingRunner.MSG_ERROR, id: id, message: 'invalid model'});
+      return;
+    }
+
+    const normalizer: DlNormalizer    = message.normalization ? new DlNormalizer(message.normalization.method) : undefined;
+    const options: IDlTrainingOptions = Object.assign({}, message.options, {normalizer: normalizer});
+
+    const handle: DlTrainingHandle = DlModel.train(message.x, message.y, message.optimizer, model, options,
+      (result: IDlTrainingResult) => {
+        delete this._runs[id];
+
+        this.__post({type: DlTrainingRunner.MSG_RESULT, id: id, result: result}, model, normalizer);
+
+        if (Array.isArray(model)) {
+          model.forEach( (v: dl.Variable<dl.Rank.R0>): void => {v.dispose()} );
+        }
+        else {
+          model.dispose();
+        }
+      });
+
+    handle.progress$.subscribe( (progress: IDlTrainingProgress) => {
+      this.__post({type: DlTrainingRunner.MSG_PROGRESS, id: id, progress: progress}, model, normalizer);
+    });
+
+    this._runs[id] = handle;
+  }
+
+  // add the current model state to a progress or result message and post it
+  protected __post(message: IDlWorkerMessage,
+                   model: Array< dl.Variable<dl.Rank.R0> > | DlBasisModel | DlMlp,
+                   normalizer: DlNormalizer): void
+  {
+    message.model  = DlModelIO.spec(model);
+    message.params = DlModelIO.tensors(Array.isArray(model) ? model : model.params);
+
+    if (normalizer) {
+      message.normalization = {method: normalizer.method, x: normalizer.xScaling, y: normalizer.yScaling};
+    }
+
+    this._scope.postMessage(message);
+  }
+}
@@ -0,0 +1,327 @@
+/**
+ * Copyright 2016 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Typescript Math Toolkit.  LOESS (LOWESS) local regression smoother, after Cleveland.  The smooth at each x is a
+ * weighted least-squares line or parabola fit to the nearest span*n points, weighted by the tricube kernel of their
+ * distance from x; the small weighted normal equations are solved with TSMT$Matrix.  Optional robustness iterations
+ * reweight every point by the bisquare of its residual (relative to six times the median absolute residual), which
+ * removes the influence of outliers.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+import { TSMT$Matrix } from "./Matrix";
+
+export interface ILoessResult
+{
+  y: Array<number>;         // smoothed value at each data point, in the order supplied
+
+  weights: Array<number>;   // robustness weight of each data point, in [0, 1] (all one without robustness iterations)
+
+  span: number;             // fraction of the data in each local fit
+
+  degree: number;           // degree of each local fit, 1 or 2
+
+  rms: number;              // square root of the average squared error at the data points
+}
+
+export class TSMT$Loess
+{
+  protected _matrix: TSMT$Matrix;
+
+  protected _x: Array<number>;         // data, sorted by x
+  protected _y: Array<number>;
+  protected _robust: Array<number>;    // robustness weights, in the order of _x
+  protected _span: number;
+  protected _degree: number;
+
+  constructor()
+  {
+    this._matrix = new TSMT$Matrix();
+
+    this._x      = new Array<number>();
+    this._y      = new Array<number>();
+    this._robust = new Array<number>();
+    this._span   = 0.75;
+    this._degree = 2;
+  }
+
+ /**
+  * Smooth a data set
+  *
+  * @param {Array<number>} x Array of x-coordinates (n data points)
+  *
+  * @param {Array<number>} y Array of y-coordinates (n data points)
+  *
+  * @param {number} span Fraction of the data in each local fit, in (0, 1]; at least degree+1 points are always used
+  * @default 0.75
+  *
+  * @param {number} degree Degree of each local fit, 1 (locally linear) or 2 (locally quadratic)
+  * @default 2
+  *
+  * @param {number} iterations Number of robustness iterations (zero for an ordinary, non-robust smooth)
+  * @default 0
+  *
+  * @returns {ILoessResult} Smoothed values and robustness weights; arrays are empty for invalid inputs
+  */
+  public fit(x: Array<number>,
+             y: Array<number>,
+             span: number = 0.75,
+             degree: number = 2,
+             iterations: number = 0): ILoessResult
+  {
+    span       = isNaN(span) || span <= 0 ? 0.75 : Math.min(span, 1.0);
+    degree     = degree == 1 ? 1 : 2;
+    iterations = isNaN(iterations) || iterations < 0 ? 0 : Math.round(iterations);
+
+    const empty: ILoessResult = {y: [], weights: [], span: span, degree: degree, rms: 0};
+
+    if (!x || !y || x.length != y.length || x.length < 2) {
+      return empty;
+    }
+
+    const n: number            = x.length;
+    const order: Array<number> = x.map( (v: number, i: number): number => {return i} );
+
+    order.sort( (a: number, b: number): number => {return x[a] - x[b]} );
+
+    this._x      = order.map( (i: number): number => {return x[i]} );
+    this._y      = order.map( (i: number): number => {return y[i]} );
+    this._robust = order.map( (): number => {return 1.0} );
+    this._span   = span;
+    this._degree = degree;
+
+    let fitted: Array<number> = this._x.map( (v: number): number => {return this.eval(v)} );
+    let iter: number, s: number;
+    let r: Array<number>;
+
+    for (iter = 0; iter < iterations; ++iter)
+    {
+      r = this._y.map( (v: number, i: number): number => {return v - fitted[i]} );
+      s = this.__median( r.map( (v: number): number => {return Math.abs(v)} ) );
+
+      if (s == 0) {
+        break;
+      }
+
+      // bisquare weights on the residuals, relative to six times the median absolute residual
+      this._robust = r.map( (v: number): number => {
+        const u: number = Math.abs(v) / (6.0*s);
+
+        return u < 1.0 ? (1.0 - u*u)*(1.0 - u*u) : 0.0;
+      });
+
+      fitted = this._x.map( (v: number): number => {return this.eval(v)} );
+    }
+
+    // back to the order supplied
+    const smooth: Array<number>  = new Array<number>();
+    const weights: Array<number> = new Array<number>();
+    let i: number, e: number;
+    let sse: number = 0.0;
+
+    for (i = 0; i < n; ++i)
+    {
+      smooth[order[i]]  = fitted[i];
+      weights[order[i]] = this._robust[i];
+
+      e    = fitted[i] - this._y[i];
+      sse += e*e;
+    }
+
+    return {y: smooth, weights: weights, span: span, degree: degree, rms: Math.sqrt(sse/n)};
+  }
+
+  /**
+   * Evaluate the smooth at an input value
+   *
+   * @param {number} x x-coordinate
+   *
+   * @returns {number} Local regression at x (extrapolated by the local fit at the nearest points beyond the data), or
+   * zero if fit() has not been called
+   */
+  public eval(x: number): number
+  {
+    const n: number = this._x.length;
+
+    if (n == 0) {
+      return 0.0;
+    }
+
+    const q: number = Math.min( Math.max( Math.ceil(this._span*n), this._degree + 1 ), n );
+
+    // distance to the q-th nearest point, found by growing a window about x
+    let lo: number = this.__nearest(x);
+    let hi: number = lo;
+
+    while (hi - lo + 1 < q)
+    {
+      if (lo == 0) {
+        hi++;
+      }
+      else if (hi == n-1) {
+        lo--;
+      }
+      else if (x - this._x[lo-1] <= this._x[hi+1] - x) {
+        lo--;
+      }
+      else {
+        hi++;
+      }
+    }
+
+    let h: number = Math.max(x - this._x[lo], this._x[hi] - x);
+
+    // points tied with the farthest neighbor are included
+    while (lo > 0 && x - this._x[lo-1] <= h) {
+      lo--;
+    }
+
+    while (hi < n-1 && this._x[hi+1] - x <= h) {
+      hi++;
+    }
+
+    h = h > 0 ? h*1.000001 : 1.0;
+
+    // tricube kernel times robustness weight; local coordinates are scaled by the bandwidth
+    const u: Array<number> = new Array<number>();
+    const w: Array<number> = new Array<number>();
+    const v: Array<number> = new Array<number>();
+    let i: number, d: number;
+
+    for (i = lo; i <= hi; ++i)
+    {
+      d = Math.abs(this._x[i] - x) / h;
+      d = d < 1.0 ? 1.0 - d*d*d : 0.0;
+
+      u.push( (this._x[i] - x) / h );
+      w.push( d*d*d*this._robust[i] );
+      v.push( this._y[i] );
+    }
+
+    let degree: number;
+    let c: Array<number>;
+
+    // the local degree drops if the weighted points cannot support it; the value at x is the constant term
+    for (degree = this._degree; degree >= 1; degree--)
+    {
+      c = this.__weightedSolve(u, v, w, degree);
+
+      if (c.length > 0) {
+        return c[0];
+      }
+    }
+
+    const sw: number = w.reduce( (s: number, wi: number): number => {return s + wi}, 0.0 );
+
+    return sw > 0
+      ? w.reduce( (s: number, wi: number, k: number): number => {return s + wi*v[k]}, 0.0 ) / sw
+      : v.reduce( (s: number, vi: number): number => {return s + vi}, 0.0 ) / v.length;
+  }
+
+  // weighted least-squares polynomial of the specified degree from its normal equations; empty if singular
+  protected __weightedSolve(u: Array<number>, v: Array<number>, w: Array<number>, degree: number): Array<number>
+  {
+    const m: number                 = degree + 1;
+    const a: Array< Array<number> > = new Array< Array<number> >();
+    const b: Array<number>          = new Array<number>();
+    const sums: Array<number>       = new Array<number>();
+    let i: number, j: number, k: number, p: number;
+
+    for (k = 0; k <= 2*degree; ++k) {
+      sums[k] = 0.0;
+    }
+
+    for (j = 0; j < m; ++j) {
+      b[j] = 0.0;
+    }
+
+    for (i = 0; i < u.length; ++i)
+    {
+      p = w[i];
+
+      for (k = 0; k <= 2*degree; ++k)
+      {
+        sums[k] += p;
+
+        if (k < m) {
+          b[k] += p*v[i];
+        }
+
+        p *= u[i];
+      }
+    }
+
+    for (j = 0; j < m; ++j) {
+      a[j] = sums.slice(j, j + m);
+    }
+
+    // a local system with fewer effective points than coefficients is singular; reject it before factorization
+    const points: number = w.filter( (wi: number, l: number): boolean => {
+      return wi > 0 && (l == 0 || u[l] != u[l-1]);
+    }).length;
+
+    if (points < m) {
+      return new Array<number>();
+    }
+
+    this._matrix.fromArray(a);
+
+    return this._matrix.solve(b);
+  }
+
+  // index of the data point nearest x
+  protected __nearest(x: number): number
+  {
+    const n: number = this._x.length;
+    let lo: number  = 0;
+    let hi: number  = n-1;
+    let k: number;
+
+    if (x <= this._x[0]) {
+      return 0;
+    }
+
+    if (x >= this._x[n-1]) {
+      return n-1;
+    }
+
+    while (hi - lo > 1)
+    {
+      k = (hi + lo) >> 1;
+
+      if (this._x[k] > x) {
+        hi = k;
+      }
+      else {
+        lo = k;
+      }
+    }
+
+    return x - this._x[lo] <= this._x[hi] - x ? lo : hi;
+  }
+
+  // median of a (non-empty) set of values
+  protected __median(values: Array<number>): number
+  {
+    const v: Array<number> = values.slice().sort( (a: number, b: number): number => {return a - b} );
+    const k: number        = v.length >> 1;
+
+    return v.length % 2 == 1 ? v[k] : 0.5*(v[k-1] + v[k]);
+  }
+}
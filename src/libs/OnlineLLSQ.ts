@@ -0,0 +1,221 @@
+/**
+ * Copyright 2016 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Typescript Math Toolkit: Online (streaming) linear least squares.  Points are added (or removed) one at a time and
+ * the fit is available after every update at constant cost, without storing the data.  The running weighted means and
+ * co-moments of x and y are updated by Welford's method, which avoids the cancellation of raw sums over long streams.
+ * An optional forgetting factor discounts every existing point each time a point is added, so that the fit tracks a
+ * drifting relationship (i.e. a live sensor feed); the effective window is about 1/(1 - forgetting) points.  Results
+ * match TSMT$LLSQ.fit on the same data without forgetting.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+import { ILLSQResult } from "./llsq";
+
+export class TSMT$OnlineLLSQ
+{
+  protected _forgetting: number;
+
+  protected _n: number;      // (effective) number of points
+  protected _sw: number;     // sum of weights
+  protected _xbar: number;   // weighted means
+  protected _ybar: number;
+  protected _cxx: number;    // weighted co-moments about the means
+  protected _cxy: number;
+  protected _cyy: number;
+
+ /**
+  * Construct a new online linear least-squares estimator
+  *
+  * @param {number} forgetting Forgetting factor in (0, 1]; existing points are multiplied by this factor each time a
+  * point is added (one for an ordinary, growing fit)
+  * @default 1
+  */
+  constructor(forgetting: number = 1)
+  {
+    this._forgetting = isNaN(forgetting) || forgetting <= 0 || forgetting > 1 ? 1 : forgetting;
+
+    this.clear();
+  }
+
+  /**
+   * Access the forgetting factor
+   *
+   * @returns {number}
+   */
+  public get forgetting(): number
+  {
+    return this._forgetting;
+  }
+
+  /**
+   * Access the number of points in the fit
+   *
+   * @returns {number} Number of points added less those removed; with forgetting, the effective (discounted) number
+   */
+  public get count(): number
+  {
+    return this._n;
+  }
+
+  /**
+   * Access the current fit
+   *
+   * @returns {ILLSQResult} Slope, intercept, uncertainties, chi2, R^2 and covariance, with the same conventions as
+   * TSMT$LLSQ.fit (the uncertainties are estimated from the scatter about the fit).  A fit to a singleton point at the
+   * origin is returned if there are fewer than three points or the x-coordinates do not vary.
+   */
+  public get result(): ILLSQResult
+  {
+    if (this._n <= 2 || this._cxx <= 0) {
+      return {a: 0, b: 0, siga: 0, sigb: 0, chi2: 0, r: 0, covab: 0, q: 0};
+    }
+
+    const slope: number     = this._cxy / this._cxx;
+    const intercept: number = this._ybar - slope*this._xbar;
+    const chi2: number      = Math.max(this._cyy - slope*this._cxy, 0.0);
+
+    // variance of a unit-weight observation, estimated from the scatter about the fit
+    const sigdat2: number = chi2 / (this._n - 2);
+
+    return {
+      a: slope,
+      b: intercept,
+      siga: Math.sqrt( sigdat2*(1.0/this._sw + this._xbar*this._xbar/this._cxx) ),
+      sigb: Math.sqrt(sigdat2/this._cxx),
+      chi2: chi2,
+      r: this._cyy > 0 ? 1.0 - chi2/this._cyy : 1.0,
+      covab: -this._xbar*sigdat2/this._cxx,
+      q: 1.0
+    };
+  }
+
+  /**
+   * Evaluate the current fit
+   *
+   * @param {number} x x-coordinate
+   *
+   * @returns {number} Value of the fit line at x, or zero if there is no fit
+   */
+  public eval(x: number): number
+  {
+    const fit: ILLSQResult = this.result;
+
+    return fit.a*x + fit.b;
+  }
+
+  /**
+   * Add a point to the fit
+   *
+   * @param {number} x x-coordinate
+   *
+   * @param {number} y y-coordinate
+   *
+   * @param {number} w Weight of the point (positive)
+   * @default 1
+   *
+   * @returns {boolean} True if the point was added; false if any input is invalid
+   */
+  public add(x: number, y: number, w: number = 1): boolean
+  {
+    if (!isFinite(x) || !isFinite(y) || !isFinite(w) || w <= 0) {
+      return false;
+    }
+
+    const f: number = this._forgetting;
+
+    this._n  = f*this._n + 1;
+    this._sw = f*this._sw + w;
+
+    const dx: number = x - this._xbar;
+    const dy: number = y - this._ybar;
+
+    this._xbar += w*dx/this._sw;
+    this._ybar += w*dy/this._sw;
+
+    this._cxx = f*this._cxx + w*dx*(x - this._xbar);
+    this._cxy = f*this._cxy + w*dx*(y - this._ybar);
+    this._cyy = f*this._cyy + w*dy*(y - this._ybar);
+
+    return true;
+  }
+
+  /**
+   * Remove a point previously added to the fit (i.e. a point deleted while editing a data set)
+   *
+   * @param {number} x x-coordinate
+   *
+   * @param {number} y y-coordinate
+   *
+   * @param {number} w Weight with which the point was added
+   * @default 1
+   *
+   * @returns {boolean} True if the point was removed; false if any input is invalid, the fit is empty, or points are
+   * forgotten (the discounted weight of an earlier point is unknown)
+   */
+  public remove(x: number, y: number, w: number = 1): boolean
+  {
+    if (!isFinite(x) || !isFinite(y) || !isFinite(w) || w <= 0 || this._forgetting < 1 || this._n < 1) {
+      return false;
+    }
+
+    const sw: number = this._sw - w;
+
+    // removing the last point (or more weight than remains) empties the fit
+    if (this._n < 1.5 || sw <= 0)
+    {
+      this.clear();
+      return true;
+    }
+
+    const dx: number = x - this._xbar;
+    const dy: number = y - this._ybar;
+
+    // reverse the Welford update; means before the point was added
+    const xbar: number = this._xbar - w*dx/sw;
+    const ybar: number = this._ybar - w*dy/sw;
+
+    this._cxx = Math.max(this._cxx - w*(x - xbar)*dx, 0.0);
+    this._cxy = this._cxy - w*(x - xbar)*dy;
+    this._cyy = Math.max(this._cyy - w*(y - ybar)*dy, 0.0);
+
+    this._xbar = xbar;
+    this._ybar = ybar;
+    this._sw   = sw;
+    this._n   -= 1;
+
+    return true;
+  }
+
+  /**
+   * Remove all points from the fit
+   *
+   * @returns {nothing}
+   */
+  public clear(): void
+  {
+    this._n    = 0;
+    this._sw   = 0;
+    this._xbar = 0;
+    this._ybar = 0;
+    this._cxx  = 0;
+    this._cxy  = 0;
+    this._cyy  = 0;
+  }
+}
@@ -0,0 +1,446 @@
+/**
+ * Copyright 2016 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Typescript Math Toolkit.  Online (streaming) polynomial least squares.  Points are added (or removed) one at a time
+ * and the fit is available after every update, without storing the data.  The upper-triangular factor, R, of the QR
+ * factorization of the weighted design matrix is updated by Givens rotations (and downdated by hyperbolic rotations
+ * when a point is removed), which is as well conditioned as the batch QR solver; the cost of an update depends only on
+ * the order.  An optional forgetting factor discounts every existing point each time a point is added (recursive least
+ * squares with exponential forgetting), so that the fit tracks a drifting relationship.
+ *
+ * The polynomial is accumulated in t = (x - offset) / scale, which is fixed when the estimator is constructed since the
+ * data range is not known in advance; choose offset and scale to map the expected x-range to about [-1, 1].  Methods
+ * inherited from TSMT$Pllsq (eval, polynomial, derivative, integrate, roots, extrema, and band) apply to the current
+ * fit.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+import { TSMT$Pllsq
+       , IPolyLLSQResult
+       , IPolyConstraint       } from "./Pllsq";
+import { TSMT$SpecialFunctions } from "./SpecialFunctions";
+import { TSMT$Polynomial       } from "./Polynomial";
+
+export class TSMT$OnlinePllsq extends TSMT$Pllsq
+{
+  protected _order: number;
+  protected _forgetting: number;
+
+  protected _r: Array< Array<number> >;   // upper-triangular factor of the weighted design matrix, in t
+  protected _z: Array<number>;            // first m elements of Q^T (sqrt(w) y)
+  protected _rss: number;                 // weighted sum of squared residuals
+  protected _count: number;               // (effective) number of points
+  protected _sw: number;                  // sum of weights
+  protected _ybar: number;                // weighted mean and sum of squares about the mean of y
+  protected _syy: number;
+
+ /**
+  * Construct a new online polynomial least-squares estimator
+  *
+  * @param {number} order Order of the polynomial (defaults to 1 for invalid inputs)
+  * @default 1
+  *
+  * @param {number} offset Offset of the fit variable, t = (x - offset) / scale, i.e. the center of the expected x-range
+  * @default 0
+  *
+  * @param {number} scale Scale of the fit variable (positive), i.e. half the width of the expected x-range
+  * @default 1
+  *
+  * @param {number} forgetting Forgetting factor in (0, 1]; existing points are multiplied by this factor each time a
+  * point is added (one for an ordinary, growing fit)
+  * @default 1
+  */
+  constructor(order: number = 1, offset: number = 0, scale: number = 1, forgetting: number = 1)
+  {
+    super();
+
+    this._order      = isNaN(order) || order < 1 ? 1 : Math.round(order);
+    this._offset     = isFinite(offset) ? offset : 0;
+    this._scale      = isFinite(scale) && scale > 0 ? scale : 1;
+    this._forgetting = isNaN(forgetting) || forgetting <= 0 || forgetting > 1 ? 1 : forgetting;
+    this._solver     = TSMT$Pllsq.QR;
+
+    this.clear();
+  }
+
+  /**
+   * Access the order of the polynomial
+   *
+   * @returns {number}
+   */
+  public get order(): number
+  {
+    return this._order;
+  }
+
+  /**
+   * Access the forgetting factor
+   *
+   * @returns {number}
+   */
+  public get forgetting(): number
+  {
+    return this._forgetting;
+  }
+
+  /**
+   * Access the number of points in the fit
+   *
+   * @returns {number} Number of points added less those removed; with forgetting, the effective (discounted) number
+   */
+  public get count(): number
+  {
+    return this._count;
+  }
+
+  /**
+   * Access the current fit
+   *
+   * @returns {IPolyLLSQResult} Coefficients and statistics with the same conventions as TSMT$Pllsq.fit, except that
+   * 'rms' is the square root of the weighted mean squared residual (the RMS error for unit weights) since the data are
+   * not stored.  The coefficient array is empty until there are at least m+2 points (for m+1 coefficients) that
+   * determine the polynomial.
+   */
+  public get result(): IPolyLLSQResult
+  {
+    const empty: IPolyLLSQResult = {coef: [], rms: 0, chi2: 0, cond: 0, r: 0, rAdj: 0, dof: 0, cov: [], se: [], t: [], p: [], f: 0, pF: 0};
+    const m: number              = this._order + 1;
+
+    if (this._c.length == 0 || this._dof <= 0) {
+      return empty;
+    }
+
+    const chi2: number = this._rss;
+    const sst: number  = this._syy;
+    const dof: number  = this._dof;
+    const r: number    = sst > 0 ? 1.0 - chi2/sst : (chi2 == 0 ? 1.0 : 0.0);
+
+    const cov: Array< Array<number> > = this.__covariance(this._variance);
+
+    const se: Array<number> = cov.map( (row: Array<number>, j: number): number => {return Math.sqrt( Math.max(row[j], 0) )} );
+    const ts: Array<number> = this._c.map( (c: number, j: number): number => {
+      return se[j] > 0 ? c/se[j] : (c == 0 ? 0 : c*Infinity);
+    });
+
+    const f: number = chi2 > 0 ? ((sst - chi2)/(m - 1)) / (chi2/dof) : Infinity;
+
+    return {
+      coef: this._c.slice(),
+      rms: Math.sqrt(chi2/this._sw),
+      chi2: chi2,
+      cond: this.__cond( this.__singularValues(this._r) ),
+      r: r,
+      rAdj: 1.0 - (1.0 - r)*(this._count - 1)/dof,
+      dof: dof,
+      cov: cov,
+      se: se,
+      t: ts,
+      p: ts.map( (v: number): number => {return TSMT$SpecialFunctions.studentP(v, dof)} ),
+      f: f,
+      pF: TSMT$SpecialFunctions.fisherP(Math.max(f, 0), m - 1, dof)
+    };
+  }
+
+ /**
+  * Restart the online fit from a batch of points
+  *
+  * @param {Array<number>} x Array of x-coordinates (n data points)
+  *
+  * @param {Array<number>} y Array of y-coordinates (n data points)
+  *
+  * @param {number} m Order of polynomial, which replaces the order of the estimator (defaults to 1 for invalid inputs)
+  *
+  * @param {Array<number>} w Optional per-point weights (n data points, positive), or measurement standard deviations of
+  * the y-coordinates if sigma is true
+  *
+  * @param {boolean} sigma True if w contains measurement standard deviations, in which case each point is weighted by
+  * 1/sigma^2 (the covariance is still scaled by the residual variance)
+  * @default false
+  *
+  * @param {Array<IPolyConstraint>} constraints Not supported by the online fit; an empty result is returned if any
+  * are supplied
+  *
+  * @return {IPolyLLSQResult} Current fit after every point is added, in order (with forgetting, later points carry more
+  * weight); empty if any input is invalid
+  */
+  public fit(x: Array<number>,
+             y: Array<number>,
+             m: number,
+             w?: Array<number>,
+             sigma: boolean = false,
+             constraints?: Array<IPolyConstraint>): IPolyLLSQResult
+  {
+    this._order = isNaN(m) || m < 1 ? 1 : Math.round(m);
+
+    this.clear();
+
+    const weights: Array<number> = x && y ? this.__weights(x.length, w, sigma) : null;
+    const valid: boolean         = !!weights && y.length == x.length && weights.every( (v: number): boolean => {return v > 0} );
+
+    if (constraints && constraints.length > 0)
+    {
+      const empty: IPolyLLSQResult = this.result;
+
+      empty.error = 'constraints are not supported by the online fit';
+      return empty;
+    }
+
+    if (!valid) {
+      return this.result;
+    }
+
+    let i: number;
+    for (i = 0; i < x.length; ++i)
+    {
+      if (!this.add(x[i], y[i], weights[i]))
+      {
+        this.clear();
+        break;
+      }
+    }
+
+    return this.result;
+  }
+
+  /**
+   * Add a point to the fit
+   *
+   * @param {number} x x-coordinate
+   *
+   * @param {number} y y-coordinate
+   *
+   * @param {number} w Weight of the point (positive)
+   * @default 1
+   *
+   * @returns {boolean} True if the point was added; false if any input is invalid
+   */
+  public add(x: number, y: number, w: number = 1): boolean
+  {
+    if (!isFinite(x) || !isFinite(y) || !isFinite(w) || w <= 0) {
+      return false;
+    }
+
+    const f: number        = this._forgetting;
+    const sf: number       = Math.sqrt(f);
+    const m: number        = this._order + 1;
+    const a: Array<number> = this.__row(x, w);
+    let b: number          = Math.sqrt(w)*y;
+    let i: number, j: number, k: number, r: number, c: number, s: number, tmp: number;
+
+    // discount the existing points, then rotate the new row into R
+    for (i = 0; i < m; ++i)
+    {
+      this._z[i] *= sf;
+
+      for (j = i; j < m; ++j) {
+        this._r[i][j] *= sf;
+      }
+    }
+
+    for (k = 0; k < m; ++k)
+    {
+      if (a[k] == 0) {
+        continue;
+      }
+
+      r = Math.sqrt(this._r[k][k]*this._r[k][k] + a[k]*a[k]);
+      c = this._r[k][k]/r;
+      s = a[k]/r;
+
+      this._r[k][k] = r;
+
+      for (j = k+1; j < m; ++j)
+      {
+        tmp           = this._r[k][j];
+        this._r[k][j] = c*tmp + s*a[j];
+        a[j]          = c*a[j] - s*tmp;
+      }
+
+      tmp        = this._z[k];
+      this._z[k] = c*tmp + s*b;
+      b          = c*b - s*tmp;
+    }
+
+    // the rotated right-hand side that falls outside the range of R is the new point's contribution to chi2
+    this._rss   = f*this._rss + b*b;
+    this._count = f*this._count + 1;
+
+    tmp         = y - this._ybar;
+    this._sw    = f*this._sw + w;
+    this._ybar += w*tmp/this._sw;
+    this._syy   = f*this._syy + w*tmp*(y - this._ybar);
+
+    this.__refresh();
+
+    return true;
+  }
+
+  /**
+   * Remove a point previously added to the fit (i.e. a point deleted while editing a data set)
+   *
+   * @param {number} x x-coordinate
+   *
+   * @param {number} y y-coordinate
+   *
+   * @param {number} w Weight with which the point was added
+   * @default 1
+   *
+   * @returns {boolean} True if the point was removed; false if any input is invalid, the fit is empty, points are
+   * forgotten (the discounted weight of an earlier point is unknown), or the point cannot have been in the fit (removing
+   * it would leave R indefinite).  The fit is unchanged if the point is not removed.
+   */
+  public remove(x: number, y: number, w: number = 1): boolean
+  {
+    if (!isFinite(x) || !isFinite(y) || !isFinite(w) || w <= 0 || this._forgetting < 1 || this._count < 1) {
+      return false;
+    }
+
+    if (this._count < 1.5 || this._sw - w <= 0)
+    {
+      this.clear();
+      return true;
+    }
+
+    const m: number                  = this._order + 1;
+    const rd: Array< Array<number> > = this._r.map( (row: Array<number>): Array<number> => {return row.slice()} );
+    const zd: Array<number>          = this._z.slice();
+    const a: Array<number>           = this.__row(x, w);
+    let b: number                    = Math.sqrt(w)*y;
+    let j: number, k: number, r: number, c: number, s: number, tmp: number;
+
+    // hyperbolic rotations remove the row from R, on copies so that a failed downdate leaves the fit intact
+    for (k = 0; k < m; ++k)
+    {
+      if (a[k] == 0) {
+        continue;
+      }
+
+      tmp = rd[k][k]*rd[k][k] - a[k]*a[k];
+
+      if (tmp <= 0) {
+        return false;
+      }
+
+      r = Math.sqrt(tmp);
+      c = r/rd[k][k];
+      s = a[k]/rd[k][k];
+
+      rd[k][k] = r;
+
+      for (j = k+1; j < m; ++j)
+      {
+        rd[k][j] = (rd[k][j] - s*a[j])/c;
+        a[j]     = c*a[j] - s*rd[k][j];
+      }
+
+      zd[k] = (zd[k] - s*b)/c;
+      b     = c*b - s*zd[k];
+    }
+
+    this._r     = rd;
+    this._z     = zd;
+    this._rss   = Math.max(this._rss - b*b, 0.0);
+    this._count = this._count - 1;
+
+    // reverse the Welford update of the mean and sum of squares of y
+    const sw: number   = this._sw - w;
+    const ybar: number = this._ybar - w*(y - this._ybar)/sw;
+
+    this._syy  = Math.max(this._syy - w*(y - ybar)*(y - this._ybar), 0.0);
+    this._ybar = ybar;
+    this._sw   = sw;
+
+    this.__refresh();
+
+    return true;
+  }
+
+  /**
+   * Remove all points from the fit
+   *
+   * @returns {nothing}
+   */
+  public clear(): void
+  {
+    const m: number = this._order + 1;
+    let i: number, j: number;
+
+    this._r = new Array< Array<number> >();
+    this._z = new Array<number>();
+
+    for (i = 0; i < m; ++i)
+    {
+      this._r[i] = new Array<number>();
+      this._z[i] = 0.0;
+
+      for (j = 0; j < m; ++j) {
+        this._r[i][j] = 0.0;
+      }
+    }
+
+    this._rss   = 0;
+    this._count = 0;
+    this._sw    = 0;
+    this._ybar  = 0;
+    this._syy   = 0;
+
+    this._c        = new Array<number>();
+    this._t        = new Array<number>();
+    this._inv      = new Array< Array<number> >();
+    this._n        = 0;
+    this._variance = 0;
+    this._dof      = 0;
+  }
+
+  // weighted row of the design matrix, sqrt(w) * t^i for t = (x - offset) / scale
+  protected __row(x: number, w: number): Array<number>
+  {
+    return this.__design([x], this._order + 1, [w], this._offset, this._scale)[0];
+  }
+
+  // coefficients, (R^T R)^-1, and the residual variance from the current factorization
+  protected __refresh(): void
+  {
+    const m: number        = this._order + 1;
+    const t: Array<number> = this._count > m ? this.__backSubstitute(this._r, this._z) : new Array<number>();
+
+    if (t.length == 0)
+    {
+      this._c        = new Array<number>();
+      this._t        = new Array<number>();
+      this._inv      = new Array< Array<number> >();
+      this._variance = 0;
+      this._dof      = 0;
+
+      return;
+    }
+
+    // columns of R^-1, by back substitution against the unit vectors
+    const rinv: Array< Array<number> > = this.__identity(m).map( (e: Array<number>): Array<number> => {
+      return this.__backSubstitute(this._r, e);
+    });
+
+    this._t        = t;
+    this._c        = TSMT$Polynomial.toMonomial(t, this._offset, this._scale);
+    this._inv      = this.__gram(rinv, m);
+    this._n        = this._c.length;
+    this._dof      = this._count - m;
+    this._variance = this._rss/this._dof;
+  }
+}
@@ -0,0 +1,567 @@
+/**
+ * Copyright 2016 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Typescript Math Toolkit.  Penalized (shrinkage) polynomial regression; ridge, lasso, and elastic net.  The fit
+ * minimizes
+ *
+ * (1/2n) sum (y(i) - p(x(i)))^2 + lambda * ( (1-alpha)/2 * sum b(k)^2 + alpha * sum |b(k)| )
+ *
+ * where b(k) is the coefficient of the k-th power of x after each power is standardized (zero mean and unit variance
+ * over the data, with x first mapped onto [-1, 1]), so that the penalty does not depend on the units of x.  The
+ * intercept is not penalized.  alpha = 0 is ridge regression, solved in closed form with TSMT$Matrix; alpha = 1 is the
+ * lasso and values in between are the elastic net, both solved by cyclic coordinate descent.  With a mean-squared-error
+ * loss, the penalty is l1 * sum |b(k)| + l2 * sum b(k)^2 for l1 = 2 * lambda * alpha and l2 = lambda * (1-alpha).
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+import { TSMT$Matrix     } from "./Matrix";
+import { TSMT$Polynomial } from "./Polynomial";
+
+export interface IPenalizedFit
+{
+  coef: Array<number>;      // polynomial coefficients, c0 + c1*x + c2*x^2 + ... (empty for invalid inputs)
+
+  lambda: number;           // penalty strength
+
+  alpha: number;            // mix of lasso (1) and ridge (0) penalties
+
+  df: number;               // effective degrees of freedom of the penalized coefficients (the number of nonzero
+                            // coefficients for the lasso), plus one for the intercept
+
+  rms: number;              // square root of the average squared error at the data points
+
+  iterations: number;       // coordinate-descent sweeps (zero for ridge regression)
+}
+
+export interface IPenalizedPath
+{
+  alpha: number;
+
+  lambda: Array<number>;    // penalty strengths, in decreasing order
+
+  fits: Array<IPenalizedFit>;   // fit to the full data set at each lambda
+
+  cv: Array<number>;        // k-fold cross-validation error (mean squared error of held-out predictions) at each
+                            // lambda; empty unless cross-validation was performed
+
+  cvSe: Array<number>;      // standard error of the cross-validation error, across folds
+
+  best: number;             // index of the lambda with the smallest cross-validation error (-1 without cross-validation)
+
+  oneSe: number;            // index of the largest lambda within one standard error of the best (-1 without
+                            // cross-validation)
+}
+
+export class TSMT$Penalized
+{
+  protected static MAXIT: number = 1000;
+  protected static TOL: number   = 1.0e-8;
+
+  protected _matrix: TSMT$Matrix;
+
+  protected _offset: number;         // x is mapped onto [-1, 1] by t = (x - offset) / scale
+  protected _scale: number;
+  protected _mean: Array<number>;    // mean and standard deviation of each power of t, 1 through m
+  protected _sd: Array<number>;
+  protected _b: Array<number>;       // standardized coefficients
+  protected _polynomial: TSMT$Polynomial;
+
+  constructor()
+  {
+    this._matrix = new TSMT$Matrix();
+
+    this._offset     = 0;
+    this._scale      = 1;
+    this._mean       = new Array<number>();
+    this._sd         = new Array<number>();
+    this._b          = new Array<number>();
+    this._polynomial = new TSMT$Polynomial();
+  }
+
+  /**
+   * Access the most recent fit as a polynomial
+   *
+   * @returns {TSMT$Polynomial} Fitted polynomial, or the zero polynomial if no fit has been computed
+   */
+  public get polynomial(): TSMT$Polynomial
+  {
+    return this._polynomial;
+  }
+
+ /**
+  * Fit a penalized polynomial
+  *
+  * @param {Array<number>} x Array of x-coordinates (n data points)
+  *
+  * @param {Array<number>} y Array of y-coordinates (n data points)
+  *
+  * @param {number} m Order of polynomial
+  *
+  * @param {number} lambda Penalty strength (non-negative); zero is ordinary least squares, which requires n > m
+  *
+  * @param {number} alpha Mix of penalties in [0, 1]; 0 is ridge, 1 is lasso, and values in between are elastic net
+  * @default 0
+  *
+  * @returns {IPenalizedFit} Fit; coefficients are empty for invalid inputs
+  */
+  public fit(x: Array<number>, y: Array<number>, m: number, lambda: number, alpha: number = 0): IPenalizedFit
+  {
+    alpha = isNaN(alpha) ? 0 : Math.min( Math.max(alpha, 0), 1 );
+    m     = isNaN(m) || m < 1 ? 1 : Math.round(m);
+
+    const empty: IPenalizedFit = {coef: [], lambda: lambda, alpha: alpha, df: 0, rms: 0, iterations: 0};
+
+    if (!x || !y || x.length != y.length || x.length < 2 || !(lambda >= 0 && isFinite(lambda))) {
+      return empty;
+    }
+
+    const z: Array< Array<number> > = this.__standardize(x, m);
+
+    return this.__solve(x, y, z, lambda, alpha, new Array<number>()) || empty;
+  }
+
+ /**
+  * Compute the coefficient path over a grid of penalty strengths, optionally choosing lambda by k-fold cross-validation;
+  * the fit at the chosen lambda (the one with the smallest cross-validation error) becomes the current fit
+  *
+  * @param {Array<number>} x Array of x-coordinates (n data points)
+  *
+  * @param {Array<number>} y Array of y-coordinates (n data points)
+  *
+  * @param {number} m Order of polynomial
+  *
+  * @param {number} alpha Mix of penalties in [0, 1]
+  * @default 0
+  *
+  * @param {number} folds Number of cross-validation folds (point i is held out in fold i mod folds); zero for the path
+  * without cross-validation, in which case the current fit is at the smallest lambda
+  * @default 5
+  *
+  * @param {Array<number>} lambdas Optional penalty strengths; by default, 50 values spaced logarithmically from the
+  * smallest lambda at which every coefficient is zero (for alpha > 0; as if alpha were 0.001 for ridge) down to 1.0e-4
+  * of that value for the lasso
+  *
+  * @returns {IPenalizedPath} Fits at each lambda (in decreasing order) with their cross-validation errors; empty arrays
+  * for invalid inputs.  Successive lasso and elastic-net fits are started from the previous solution (warm starts).
+  */
+  public path(x: Array<number>,
+              y: Array<number>,
+              m: number,
+              alpha: number = 0,
+              folds: number = 5,
+              lambdas?: Array<number>): IPenalizedPath
+  {
+    alpha = isNaN(alpha) ? 0 : Math.min( Math.max(alpha, 0), 1 );
+    m     = isNaN(m) || m < 1 ? 1 : Math.round(m);
+    folds = isNaN(folds) || folds < 2 ? 0 : Math.round(folds);
+
+    const result: IPenalizedPath = {alpha: alpha, lambda: [], fits: [], cv: [], cvSe: [], best: -1, oneSe: -1};
+
+    if (!x || !y || x.length != y.length || x.length < 2) {
+      return result;
+    }
+
+    const n: number = x.length;
+    folds           = Math.min(folds, n);
+
+    const grid: Array<number> = lambdas && lambdas.length > 0
+      ? lambdas.filter( (v: number): boolean => {return v >= 0 && isFinite(v)} )
+      : this.__grid(x, y, m, alpha, 50);
+
+    grid.sort( (a: number, b: number): number => {return b - a} );
+    result.lambda = grid;
+
+    let i: number, fold: number, j: number, r: number;
+    let fit: IPenalizedFit;
+
+    // cross-validation error of each lambda, in each fold
+    if (folds > 0)
+    {
+      const errors: Array< Array<number> > = grid.map( (): Array<number> => {return new Array<number>()} );
+      let xt: Array<number>, yt: Array<number>, z: Array< Array<number> >, start: Array<number>, sse: number, count: number;
+
+      for (fold = 0; fold < folds; ++fold)
+      {
+        xt    = x.filter( (v: number, k: number): boolean => {return k % folds != fold} );
+        yt    = y.filter( (v: number, k: number): boolean => {return k % folds != fold} );
+        z     = this.__standardize(xt, m);
+        start = new Array<number>();
+
+        for (i = 0; i < grid.length; ++i)
+        {
+          fit = this.__solve(xt, yt, z, grid[i], alpha, start);
+
+          if (!fit)
+          {
+            errors[i].push(Infinity);
+            continue;
+          }
+
+          start = this._b.slice();
+          sse   = 0.0;
+          count = 0;
+
+          for (j = fold; j < n; j += folds)
+          {
+            r      = this._polynomial.eval(x[j]) - y[j];
+            sse   += r*r;
+            count += 1;
+          }
+
+          errors[i].push(sse/count);
+        }
+      }
+
+      errors.forEach( (e: Array<number>): void => {
+        const mean: number = e.reduce( (s: number, v: number): number => {return s + v}, 0.0 ) / e.length;
+        const sd: number   = Math.sqrt( e.reduce( (s: number, v: number): number => {return s + (v - mean)*(v - mean)}, 0.0 )
+          / Math.max(e.length - 1, 1) );
+
+        result.cv.push(mean);
+        result.cvSe.push( sd/Math.sqrt(e.length) );
+      });
+
+      for (i = 0; i < grid.length; ++i)
+      {
+        if (result.best == -1 || result.cv[i] < result.cv[result.best]) {
+          result.best = i;
+        }
+      }
+
+      // the grid is in decreasing order, so the first lambda within one standard error is the largest
+      for (i = 0; i <= result.best; ++i)
+      {
+        if (result.cv[i] <= result.cv[result.best] + result.cvSe[result.best])
+        {
+          result.oneSe = i;
+          break;
+        }
+      }
+    }
+
+    // path on the full data set
+    const zFull: Array< Array<number> > = this.__standardize(x, m);
+    const fits: Array<IPenalizedFit>    = new Array<IPenalizedFit>();
+    let warm: Array<number>             = new Array<number>();
+
+    for (i = 0; i < grid.length; ++i)
+    {
+      fit = this.__solve(x, y, zFull, grid[i], alpha, warm);
+      fit = fit || {coef: [], lambda: grid[i], alpha: alpha, df: 0, rms: 0, iterations: 0};
+
+      fits.push(fit);
+      warm = fit.coef.length > 0 ? this._b.slice() : new Array<number>();
+    }
+
+    result.fits = fits;
+
+    // leave the selected fit (or the last fit of the path) as the current fit
+    const selected: number = result.best >= 0 ? result.best : grid.length-1;
+
+    if (selected >= 0 && selected < grid.length-1) {
+      this.__solve(x, y, zFull, grid[selected], alpha, new Array<number>());
+    }
+
+    return result;
+  }
+
+  /**
+   * Evaluate the current fit
+   *
+   * @param {number} x x-coordinate
+   *
+   * @returns {number} Fitted polynomial at x, or zero if no fit has been computed
+   */
+  public eval(x: number): number
+  {
+    return this._polynomial.eval(x);
+  }
+
+  // map x onto [-1, 1] and return the standardized powers of t (n x m), recording their mean and standard deviation
+  protected __standardize(x: Array<number>, m: number): Array< Array<number> >
+  {
+    const n: number   = x.length;
+    const min: number = Math.min.apply(null, x);
+    const max: number = Math.max.apply(null, x);
+
+    this._offset = 0.5*(min + max);
+    this._scale  = max > min ? 0.5*(max - min) : 1.0;
+    this._mean   = new Array<number>();
+    this._sd     = new Array<number>();
+
+    const z: Array< Array<number> > = x.map( (v: number): Array<number> => {
+      const t: number          = (v - this._offset) / this._scale;
+      const row: Array<number> = [t];
+
+      while (row.length < m) {
+        row.push(row[row.length-1]*t);
+      }
+
+      return row;
+    });
+
+    let i: number, k: number, mean: number, ss: number;
+
+    for (k = 0; k < m; ++k)
+    {
+      mean = 0.0;
+      for (i = 0; i < n; ++i) {
+        mean += z[i][k];
+      }
+
+      mean /= n;
+      ss    = 0.0;
+
+      for (i = 0; i < n; ++i)
+      {
+        z[i][k] -= mean;
+        ss      += z[i][k]*z[i][k];
+      }
+
+      // a constant column (all x equal) is left at zero and never enters the fit
+      this._mean[k] = mean;
+      this._sd[k]   = Math.sqrt(ss/n);
+
+      for (i = 0; i < n; ++i) {
+        z[i][k] = this._sd[k] > 0 ? z[i][k]/this._sd[k] : 0.0;
+      }
+    }
+
+    return z;
+  }
+
+  // fit at one lambda on standardized powers; starts coordinate descent from the supplied coefficients (if any) and
+  // sets the current fit.  Returns null if the system cannot be solved (ordinary least squares with too few points).
+  protected __solve(x: Array<number>,
+                    y: Array<number>,
+                    z: Array< Array<number> >,
+                    lambda: number,
+                    alpha: number,
+                    start: Array<number>): IPenalizedFit
+  {
+    const n: number         = y.length;
+    const m: number         = z[0].length;
+    const ybar: number      = y.reduce( (s: number, v: number): number => {return s + v}, 0.0 ) / n;
+    const yc: Array<number> = y.map( (v: number): number => {return v - ybar} );
+
+    let b: Array<number>   = new Array<number>();
+    let iterations: number = 0;
+    let i: number, j: number, k: number;
+
+    if (alpha == 0)
+    {
+      // ridge, (Z^T Z / n + lambda I) b = Z^T y / n
+      const a: Array< Array<number> > = new Array< Array<number> >();
+      const rhs: Array<number>        = new Array<number>();
+
+      for (j = 0; j < m; ++j)
+      {
+        a[j]   = new Array<number>();
+        rhs[j] = 0.0;
+
+        for (i = 0; i < n; ++i) {
+          rhs[j] += z[i][j]*yc[i]/n;
+        }
+
+        for (k = 0; k < m; ++k)
+        {
+          a[j][k] = j == k ? lambda : 0.0;
+
+          for (i = 0; i < n; ++i) {
+            a[j][k] += z[i][j]*z[i][k]/n;
+          }
+        }
+
+        // constant columns are fixed at zero
+        if (this._sd[j] == 0)
+        {
+          a[j]   = a[j].map( (v: number, l: number): number => {return l == j ? 1.0 : 0.0} );
+          rhs[j] = 0.0;
+        }
+      }
+
+      this._matrix.fromArray(a);
+      b = this._matrix.solve(rhs);
+
+      if (b.length == 0) {
+        return null;
+      }
+    }
+    else
+    {
+      // coordinate descent on the residual, r = yc - Z b; each standardized column has z^T z / n = 1
+      const r: Array<number> = yc.slice();
+      const l1: number       = lambda*alpha;
+      const l2: number       = lambda*(1.0 - alpha);
+      let rho: number, next: number, delta: number, change: number;
+
+      for (j = 0; j < m; ++j) {
+        b[j] = start.length == m ? start[j] : 0.0;
+      }
+
+      for (i = 0; i < n; ++i)
+      {
+        for (j = 0; j < m; ++j) {
+          r[i] -= z[i][j]*b[j];
+        }
+      }
+
+      const sdy: number = Math.sqrt( yc.reduce( (s: number, v: number): number => {return s + v*v}, 0.0 ) / n );
+
+      for (iterations = 1; iterations <= TSMT$Penalized.MAXIT; ++iterations)
+      {
+        change = 0.0;
+
+        for (j = 0; j < m; ++j)
+        {
+          if (this._sd[j] == 0) {
+            continue;
+          }
+
+          rho = b[j];
+          for (i = 0; i < n; ++i) {
+            rho += z[i][j]*r[i]/n;
+          }
+
+          // soft threshold
+          next  = (rho > l1 ? rho - l1 : (rho < -l1 ? rho + l1 : 0.0)) / (1.0 + l2);
+          delta = next - b[j];
+
+          if (delta != 0)
+          {
+            for (i = 0; i < n; ++i) {
+              r[i] -= z[i][j]*delta;
+            }
+
+            b[j]   = next;
+            change = Math.max(change, Math.abs(delta));
+          }
+        }
+
+        if (change <= TSMT$Penalized.TOL*Math.max(sdy, 1.0e-300)) {
+          break;
+        }
+      }
+
+      iterations = Math.min(iterations, TSMT$Penalized.MAXIT);
+    }
+
+    this._b = b;
+
+    // coefficients in t: b(k) multiplies (t^(k+1) - mean(k)) / sd(k)
+    const c: Array<number> = [ybar];
+
+    for (k = 0; k < m; ++k)
+    {
+      c[k+1] = this._sd[k] > 0 ? b[k]/this._sd[k] : 0.0;
+      c[0]  -= c[k+1]*this._mean[k];
+    }
+
+    this._polynomial = new TSMT$Polynomial(c, this._offset, this._scale);
+
+    let sse: number = 0.0;
+    let e: number;
+
+    for (i = 0; i < n; ++i)
+    {
+      e    = this._polynomial.eval(x[i]) - y[i];
+      sse += e*e;
+    }
+
+    return {
+      coef: this._polynomial.coef,
+      lambda: lambda,
+      alpha: alpha,
+      df: 1 + this.__df(z, b, lambda*(1.0 - alpha)),
+      rms: Math.sqrt(sse/n),
+      iterations: iterations
+    };
+  }
+
+  // effective degrees of freedom, trace( Z_A (Z_A^T Z_A / n + l2 I)^-1 Z_A^T / n ) over the active (nonzero) set, A
+  protected __df(z: Array< Array<number> >, b: Array<number>, l2: number): number
+  {
+    const n: number             = z.length;
+    const active: Array<number> = new Array<number>();
+    let j: number;
+
+    for (j = 0; j < b.length; ++j)
+    {
+      if (b[j] != 0 && this._sd[j] > 0) {
+        active.push(j);
+      }
+    }
+
+    if (active.length == 0) {
+      return 0;
+    }
+
+    // G = Z_A^T Z_A / n; trace( (G + l2 I)^-1 G )
+    const g: Array< Array<number> > = active.map( (p: number): Array<number> => {
+      return active.map( (q: number): number => {
+        return z.reduce( (s: number, row: Array<number>): number => {return s + row[p]*row[q]/n}, 0.0 );
+      });
+    });
+
+    const matrix: TSMT$Matrix = new TSMT$Matrix();
+    matrix.fromArray( g.map( (row: Array<number>, p: number): Array<number> => {
+      return row.map( (v: number, q: number): number => {return p == q ? v + l2 : v} );
+    }) );
+
+    return active.reduce( (s: number, p: number, k: number): number => {
+      const col: Array<number> = matrix.solve( g.map( (row: Array<number>): number => {return row[k]} ) );
+
+      return s + (col.length > 0 ? col[k] : 1.0);
+    }, 0.0 );
+  }
+
+  // default lambda grid; the largest value zeroes every coefficient (max |z^T y| / (n * alpha)), with the ridge grid
+  // anchored as if alpha were 0.001, and the smallest is 1.0e-4 of the largest value for the lasso
+  protected __grid(x: Array<number>, y: Array<number>, m: number, alpha: number, count: number): Array<number>
+  {
+    const z: Array< Array<number> > = this.__standardize(x, m);
+    const n: number                 = y.length;
+    const ybar: number              = y.reduce( (s: number, v: number): number => {return s + v}, 0.0 ) / n;
+
+    let top: number = 0.0;
+    let j: number, i: number, dot: number;
+
+    for (j = 0; j < m; ++j)
+    {
+      dot = 0.0;
+      for (i = 0; i < n; ++i) {
+        dot += z[i][j]*(y[i] - ybar);
+      }
+
+      top = Math.max(top, Math.abs(dot)/n);
+    }
+
+    top = top > 0 ? top : 1.0;
+
+    const max: number         = top/Math.max(alpha, 0.001);
+    const ratio: number       = 1.0e-4*top/max;
+    const grid: Array<number> = new Array<number>();
+
+    for (i = 0; i < count; ++i) {
+      grid.push( max*Math.pow(ratio, i/(count - 1)) );
+    }
+
+    return grid;
+  }
+}
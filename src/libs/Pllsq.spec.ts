@@ -0,0 +1,64 @@
+import { TSMT$Pllsq
+       , IPolyLLSQResult } from "./Pllsq";
+
+describe('TSMT$Pllsq', () =>
+{
+  const x: Array<number> = [0, 1, 2, 3, 4, 5];
+  const y: Array<number> = [1.1, 2.9, 5.2, 6.8, 9.1, 11.0];
+
+  it('does not report a previous fit when a constrained fit has too few points for its free coefficients', () =>
+  {
+    const fit: TSMT$Pllsq = new TSMT$Pllsq();
+
+    expect( fit.fit(x, y, 2).coef.length ).toBe(3);
+
+    // one constraint on a cubic leaves three free coefficients, which three points cannot determine
+    const result: IPolyLLSQResult = fit.fit(x.slice(0, 3), y.slice(0, 3), 3, undefined, false, [{value: 0, coef: 0}]);
+
+    expect(result.coef.length).toBe(0);
+    expect(result.dof).toBe(0);
+    expect(result.error).toContain('too few points');
+
+    expect( fit.eval(2) ).toBe(0);
+    expect( fit.band([2]).y.length ).toBe(0);
+  });
+
+  [TSMT$Pllsq.NORMAL, TSMT$Pllsq.QR, TSMT$Pllsq.SVD].forEach( (solver: string): void =>
+  {
+    it('does not report a previous fit when an unconstrained fit fails (' + solver + ')', () =>
+    {
+      const fit: TSMT$Pllsq = new TSMT$Pllsq();
+      fit.solver            = solver;
+
+      const failures: Array< () => IPolyLLSQResult > = [
+        () => fit.fit(x, y, 2, [1, 1, -1, 1, 1, 1]),
+        () => fit.fit(x, y, 2, [1, 1, 0, 1, 1, 1], true),
+        () => fit.fit(x.slice(0, 3), y.slice(0, 3), 2)
+      ];
+
+      failures.forEach( (failure: () => IPolyLLSQResult): void =>
+      {
+        expect( fit.fit(x, y, 2).coef.length ).toBe(3);
+
+        const result: IPolyLLSQResult = failure();
+
+        expect(result.coef.length).toBe(0);
+        expect(result.error).toBeDefined();
+
+        expect( fit.eval(2) ).toBe(0);
+        expect( fit.polynomial.eval(2) ).toBe(0);
+        expect( fit.band([2]).y.length ).toBe(0);
+      });
+    });
+  });
+
+  it('satisfies the constraints when there are enough points', () =>
+  {
+    const fit: TSMT$Pllsq         = new TSMT$Pllsq();
+    const result: IPolyLLSQResult = fit.fit(x, y, 2, undefined, false, [{value: 0, coef: 0}]);
+
+    expect(result.error).toBeUndefined();
+    expect(result.coef.length).toBe(3);
+    expect(result.coef[0]).toBeCloseTo(0, 10);
+  });
+});
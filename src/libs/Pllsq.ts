@@ -15,35 +15,130 @@
  */
 
 /**
- * Typescript Math Toolkit.  Polynomial least squares (suitable for small-order polynomials).  Data should be reasonably
- * well-behaved (i.e. normal equations can be applied without numerical issues).
+ * Typescript Math Toolkit.  Polynomial least squares (suitable for small-order polynomials).  By default, the fit is
+ * computed from the normal equations, so data should be reasonably well-behaved (i.e. normal equations can be applied
+ * without numerical issues).  Select the QR or SVD solver for higher orders or wide x-ranges; these solve the least-
+ * squares problem directly from the Vandermonde design matrix, after centering and scaling x onto [-1, 1].  Fits may be
+ * subject to equality constraints (fixed points, fixed coefficients, or prescribed derivatives), which are imposed by
+ * the null-space method.
  *
  * @author Jim Armstrong (www.algorithmist.net)
  *
  * @version 1.0
  */
-import { TSMT$Matrix } from "./Matrix";
+import { TSMT$Matrix           } from "./Matrix";
+import { TSMT$SpecialFunctions } from "./SpecialFunctions";
+import { IFitBand              } from "./llsq";
+import { TSMT$Polynomial
+       , IPolyExtremum         } from "./Polynomial";
 
 export interface IPolyLLSQResult
 {
   coef: Array<number>;
 
   rms: number;
+
+  chi2: number;   // chi-squared parameter for the fit; weighted sum of squared residuals (plain sum if unweighted)
+
+  cond: number;   // 2-norm condition number of the system that was solved (the normal-equation matrix, or the scaled
+                  // design matrix for the QR and SVD solvers); Infinity if that system is singular
+
+  r: number;      // square (R^2) of the correlation coefficient (weighted, for a weighted fit)
+
+  rAdj: number;   // R^2 adjusted for the number of coefficients
+
+  dof: number;    // residual degrees of freedom, number of points with positive weight less the number of coefficients
+
+  cov: Array< Array<number> >;   // coefficient covariance matrix
+
+  se: Array<number>;  // coefficient standard errors
+
+  t: Array<number>;   // t-statistic of each coefficient (coefficient divided by its standard error)
+
+  p: Array<number>;   // two-sided p-value of each t-statistic (probability the coefficient is zero)
+
+  f: number;      // F-statistic for the fit as a whole, against a constant model
+
+  pF: number;     // p-value of the F-statistic (NaN for a constrained fit, which is not nested in a constant model)
+
+  error?: string; // reason the fit failed (i.e. invalid weights, too few points, or invalid constraints); undefined otherwise
+}
+
+/**
+ * An equality constraint on a polynomial fit; either a prescribed value of the polynomial (or one of its derivatives)
+ * at an x-coordinate, or a fixed coefficient
+ */
+export interface IPolyConstraint
+{
+  value: number;        // required value
+
+  x?: number;           // x-coordinate of a point or derivative constraint
+
+  derivative?: number;  // order of the derivative at x; zero (default) for a point the fit must pass through
+
+  coef?: number;        // index (power of x) of a fixed coefficient, i.e. 0 with value 0 for zero intercept; x and
+                        // derivative are ignored if this is defined
 }
 
 export class TSMT$Pllsq
 {
+  // solvers
+  public static NORMAL: string = 'normal';   // normal equations (LU), the original method
+  public static QR: string     = 'qr';       // Householder QR factorization of the design matrix
+  public static SVD: string    = 'svd';      // singular value decomposition of the design matrix (minimum-norm solution
+                                             // if the design matrix is rank-deficient)
+
+  protected static EPS: number = 2.2e-16;
+
   protected _matrix: TSMT$Matrix;
 
   protected _c: Array<number>;
   protected _n: number;
 
+  protected _solver: string;
+  protected _t: Array<number>;   // coefficients in t = (x - offset) / scale, used for evaluation
+  protected _offset: number;
+  protected _scale: number;
+  protected _inv: Array< Array<number> >;   // (A^T W A)^-1 in t, from which the coefficient covariance is computed
+  protected _variance: number;              // variance of a unit-weight observation (chi2/dof, or one for sigmas)
+  protected _dof: number;                   // residual degrees of freedom of the last successful fit
+
   constructor()
   {
     this._matrix = new TSMT$Matrix();
 
     this._c = new Array<number>();
     this._n = 0;
+
+    this._solver = TSMT$Pllsq.NORMAL;
+    this._t      = new Array<number>();
+    this._offset = 0;
+    this._scale  = 1;
+    this._inv    = new Array< Array<number> >();
+
+    this._variance = 0;
+    this._dof      = 0;
+  }
+
+  /**
+   * Access the solver
+   *
+   * @returns {string} One of the TSMT$Pllsq.NORMAL, QR, or SVD constants
+   */
+  public get solver(): string
+  {
+    return this._solver;
+  }
+
+  /**
+   * Assign the solver used by subsequent fits
+   *
+   * @param {string} value One of the TSMT$Pllsq.NORMAL, QR, or SVD constants; normal equations are used if the solver
+   * is not recognized
+   */
+  public set solver(value: string)
+  {
+    this._solver = value == TSMT$Pllsq.QR || value == TSMT$Pllsq.SVD ? value : TSMT$Pllsq.NORMAL;
   }
 
  /**
@@ -55,25 +150,329 @@ export class TSMT$Pllsq
   *
   * @param {number} m Order of polynomial (5 or lower is recommended) and n > m (defaults to 1 for invalid inputs)
   *
+  * @param {Array<number>} w Optional per-point weights (n data points, non-negative), or measurement standard deviations
+  * of the y-coordinates (n data points, positive) if sigma is true; all points are weighted equally if omitted
+  *
+  * @param {boolean} sigma True if w contains measurement standard deviations, in which case each point is weighted by
+  * 1/sigma^2
+  * @default false
+  *
+  * @param {Array<IPolyConstraint>} constraints Optional equality constraints that the fit must satisfy exactly
+  *
   * @return {IPolyLLSQResult} Fit model is c0 + c1*x + c2*x^2 + ... c(m-1)*x^m-1 - 'coef' property contains the array of
-  * polynomial coefficients.  'r' property contains the r-squared or square of corr. coefficient value.  'rms' is the
-  * square root of the average squared error between the LS estimator and the actual y-values (i.e. RMS error).
+  * polynomial coefficients.  'rms' is the square root of the average squared error between the LS estimator and the
+  * actual y-values (i.e. RMS error, unweighted).  'chi2' is the weighted sum of squared residuals, which is chi-square
+  * when measurement sigmas are supplied.  'cond' is the condition number of the system solved for the coefficients.
+  * Goodness-of-fit statistics and coefficient covariance, standard errors, t-statistics, and p-values are included;
+  * the covariance is scaled by the residual variance, chi2/dof, unless measurement sigmas are supplied.
+  * An empty coefficient array is returned (and any previous fit is cleared) for invalid weights, if fewer than m+2
+  * points have positive weight, or if the solver encounters a rank-deficient design matrix; the 'error' property
+  * describes the failure.  For a constrained fit, fewer points are required (one more
+  * than the number of coefficients left free by the constraints), the coefficients minimize chi2 among polynomials
+  * that satisfy every constraint, and the covariance is that of the constrained estimate (zero for any combination of
+  * coefficients fixed by the constraints).  The 'error' property describes any constraint that is invalid (i.e. a
+  * coefficient index above the order), constraints that cannot be satisfied simultaneously, and too few points for
+  * the coefficients left free by the constraints.
   */
-  public fit(x: Array<number>, y: Array<number>, m: number): IPolyLLSQResult
+  public fit(x: Array<number>,
+             y: Array<number>,
+             m: number,
+             w?: Array<number>,
+             sigma: boolean = false,
+             constraints?: Array<IPolyConstraint>): IPolyLLSQResult
   {
-    const empty = {coef: [], r: 0, rms: 0};
+    const empty: IPolyLLSQResult = {coef: [], rms: 0, chi2: 0, cond: 0, r: 0, rAdj: 0, dof: 0, cov: [], se: [], t: [], p: [], f: 0, pF: 0};
+
+    // a failed fit must not leave a previous fit in place
+    this._c        = new Array<number>();
+    this._t        = new Array<number>();
+    this._inv      = new Array< Array<number> >();
+    this._n        = 0;
+    this._variance = 0;
+    this._dof      = 0;
 
-    if (!x || !y) {
+    if (!x || !y)
+    {
+      empty.error = 'x- and y-coordinates are required';
       return empty;
     }
 
     const n: number = x.length;
     m               = isNaN(m) || m < 1 ? 1 : Math.round(m) + 1;
 
-    if (n <= m) {
+    const weights: Array<number> = this.__weights(n, w, sigma);
+    const constrained: boolean   = !!constraints && constraints.length > 0;
+
+    if (!weights)
+    {
+      empty.error = sigma
+        ? 'invalid sigmas; one positive value is required per point'
+        : 'invalid weights; one non-negative value is required per point';
       return empty;
     }
 
+    const positive: number = weights.filter( (v: number): boolean => {return v > 0} ).length;
+    let free: number       = m;
+    let cond: number;
+
+    if (constrained)
+    {
+      const solution: {cond: number, free: number, error: string} = this.__constrained(x, y, m, weights, constraints, positive);
+
+      if (solution.error)
+      {
+        empty.error = solution.error;
+        return empty;
+      }
+
+      cond = solution.cond;
+      free = solution.free;
+    }
+    else
+    {
+      if (positive <= m)
+      {
+        empty.error = 'too few points; at least ' + (m + 1) + ' with positive weight are required';
+        return empty;
+      }
+
+      cond = this._solver == TSMT$Pllsq.NORMAL
+        ? this.__normal(x, y, m, weights)
+        : this.__orthogonal(x, y, m, weights);
+    }
+
+    if (this._c.length == 0)
+    {
+      empty.error = 'the design matrix is rank-deficient';
+      return empty;
+    }
+
+    // rms error and chi-square
+    let s: number     = 0.0;
+    let chi2: number  = 0.0;
+    let sw: number    = 0.0;
+    let swy: number   = 0.0;
+    let count: number = 0;
+    let t: number;
+    let i: number;
+
+    for (i = 0; i < n; ++i)
+    {
+      t      = this.eval(x[i]) - y[i];
+      s     += t*t;
+      chi2  += weights[i]*t*t;
+      sw    += weights[i];
+      swy   += weights[i]*y[i];
+      count += weights[i] > 0 ? 1 : 0;
+    }
+
+    // total (weighted) sum of squares about the mean
+    const mean: number = swy/sw;
+    let sst: number    = 0.0;
+
+    for (i = 0; i < n; ++i)
+    {
+      t    = y[i] - mean;
+      sst += weights[i]*t*t;
+    }
+
+    const dof: number  = count - free;
+    const r: number    = sst > 0 ? 1.0 - chi2/sst : (chi2 == 0 ? 1.0 : 0.0);
+    const rAdj: number = 1.0 - (1.0 - r)*(count - 1)/dof;
+
+    // residuals estimate the measurement variance, unless it is supplied
+    this._variance = sigma ? 1.0 : chi2/dof;
+    this._dof      = dof;
+
+    const cov: Array< Array<number> > = this.__covariance(this._variance);
+
+    const se: Array<number> = cov.map( (row: Array<number>, j: number): number => {return Math.sqrt( Math.max(row[j], 0) )} );
+    const ts: Array<number> = this._c.map( (c: number, j: number): number => {
+      return se[j] > 0 ? c/se[j] : (c == 0 ? 0 : c*Infinity);
+    });
+
+    // F-test of the fit against a constant model (m-1 and dof degrees of freedom)
+    const f: number = constrained ? NaN : (chi2 > 0 ? ((sst - chi2)/(m - 1)) / (chi2/dof) : Infinity);
+
+    return {
+      coef: this._c,
+      rms: Math.sqrt(s/n),
+      chi2: chi2,
+      cond: cond,
+      r: r,
+      rAdj: rAdj,
+      dof: dof,
+      cov: cov,
+      se: se,
+      t: ts,
+      p: ts.map( (v: number): number => {return TSMT$SpecialFunctions.studentP(v, dof)} ),
+      f: f,
+      pF: constrained ? NaN : TSMT$SpecialFunctions.fisherP(Math.max(f, 0), m - 1, dof)
+    };
+  }
+
+  /**
+   * Evaluate the LS polynomial at an input value
+   *
+   * @param {number} x x-coordinate at which the polynomial is to be evaluated
+   *
+   * @returns {number} LS polynomial evaluated at the specified x-coordinate, or zero if the fit() method is not called
+   * before the evaluate method.
+   */
+  public eval(x: number): number
+  {
+    if (this._t.length == 0) {
+      return 0.0;
+    }
+
+    // QR and SVD fits are evaluated in the scaled variable, which is better conditioned than the reported coefficients
+    const t: number = (x - this._offset) / this._scale;
+    const n: number = this._t.length;
+    let val: number = this._t[n-1];
+    let i: number;
+
+    for (i = n-2; i >= 0; i--) {
+      val = t * val + this._t[i];
+    }
+
+    return val;
+  }
+
+  /**
+   * Access the most recent fit as a polynomial, for calculus and root-finding (i.e. differentiate or antiderivative)
+   *
+   * @returns {TSMT$Polynomial} Fitted polynomial (in the scaled variable of the solver), or the zero polynomial if the
+   * fit() method was not successfully called first
+   */
+  public get polynomial(): TSMT$Polynomial
+  {
+    return new TSMT$Polynomial(this._t, this._offset, this._scale);
+  }
+
+  /**
+   * Evaluate a derivative of the LS polynomial
+   *
+   * @param {number} x x-coordinate
+   *
+   * @param {number} order Order of the derivative (non-negative integer)
+   * @default 1
+   *
+   * @returns {number} Derivative of the specified order at x, or NaN if the order is invalid
+   */
+  public derivative(x: number, order: number = 1): number
+  {
+    return this.polynomial.derivative(x, order);
+  }
+
+  /**
+   * Integrate the LS polynomial over an interval
+   *
+   * @param {number} a Lower limit
+   *
+   * @param {number} b Upper limit
+   *
+   * @returns {number} Definite integral from a to b
+   */
+  public integrate(a: number, b: number): number
+  {
+    return this.polynomial.integrate(a, b);
+  }
+
+  /**
+   * Find the real roots of the LS polynomial in an interval
+   *
+   * @param {number} a Left endpoint
+   *
+   * @param {number} b Right endpoint
+   *
+   * @returns {Array<number>} Roots in [a, b], in increasing order
+   */
+  public roots(a: number, b: number): Array<number>
+  {
+    return this.polynomial.roots(a, b);
+  }
+
+  /**
+   * Locate the local minima and maxima (and stationary points of inflection) of the LS polynomial in an interval,
+   * i.e. the peak position of a fitted curve
+   *
+   * @param {number} a Left endpoint
+   *
+   * @param {number} b Right endpoint
+   *
+   * @returns {Array<IPolyExtremum>} Stationary points in [a, b], in increasing order of x
+   */
+  public extrema(a: number, b: number): Array<IPolyExtremum>
+  {
+    return this.polynomial.extrema(a, b);
+  }
+
+  /**
+   * Compute a confidence band for the most recent fit (mean response) or a prediction band for new observations
+   *
+   * @param {Array<number>} x x-coordinates at which the band is evaluated
+   *
+   * @param {number} level Confidence level in (0, 1)
+   * @default 0.95
+   *
+   * @param {boolean} prediction True for a prediction band, which includes the scatter of a new observation of unit
+   * weight (or unit sigma, if the fit used measurement sigmas) about the fit
+   * @default false
+   *
+   * @returns {IFitBand} Fit values and interval limits at each x-coordinate; arrays are empty if the fit() method was
+   * not successfully called first.  The interval half-width is the Student t critical value (residual degrees of
+   * freedom) times the standard error of the fit (or of a new observation), computed from the coefficient covariance.
+   */
+  public band(x: Array<number>, level: number = 0.95, prediction: boolean = false): IFitBand
+  {
+    level = isNaN(level) || level <= 0 || level >= 1 ? 0.95 : level;
+
+    const m: number = this._t.length;
+
+    if (!x || this._dof < 1 || m == 0 || this._inv.length != m) {
+      return {x: [], y: [], lower: [], upper: [], level: level};
+    }
+
+    const tc: number       = TSMT$SpecialFunctions.studentQuantile(level, this._dof);
+    const y: Array<number> = x.map( (v: number): number => {return this.eval(v)} );
+
+    // variance of the fit, g^T (A^T W A)^-1 g for g = [1, t, t^2, ...], evaluated in the scaled variable
+    const h: Array<number> = x.map( (v: number): number => {
+      const t: number        = (v - this._offset) / this._scale;
+      const g: Array<number> = [1.0];
+      let variance: number   = 0.0;
+      let i: number, j: number;
+
+      for (i = 1; i < m; ++i) {
+        g[i] = g[i-1]*t;
+      }
+
+      for (i = 0; i < m; ++i)
+      {
+        for (j = 0; j < m; ++j) {
+          variance += g[i]*this._inv[i][j]*g[j];
+        }
+      }
+
+      variance = this._variance*(prediction ? variance + 1.0 : variance);
+
+      return tc * Math.sqrt( Math.max(variance, 0.0) );
+    });
+
+    return {
+      x: x.slice(),
+      y: y,
+      lower: y.map( (v: number, i: number): number => {return v - h[i]} ),
+      upper: y.map( (v: number, i: number): number => {return v + h[i]} ),
+      level: level
+    };
+  }
+
+  // fit from the normal equations; returns the condition number of the normal-equation matrix
+  protected __normal(x: Array<number>, y: Array<number>, m: number, weights: Array<number>): number
+  {
+    const n: number = x.length;
+
     // coefficient matrix
     const a: Array< Array<number> > = new Array< Array<number> >();
     let i: number, j: number;
@@ -87,8 +486,7 @@ export class TSMT$Pllsq
     const b: Array<number>     = [];
     const len: number          = 2*(m-1);
 
-    asums[0] = n;
-    for (i = 1; i <= len; ++i) {
+    for (i = 0; i <= len; ++i) {
       asums[i] = 0.0;
     }
 
@@ -96,15 +494,18 @@ export class TSMT$Pllsq
       b[i] = 0.0;
     }
 
-    let xj: number, yj: number, tmp: Array<number>;
+    let xj: number, yj: number, wj: number, tmp: Array<number>;
 
+    // weighted normal equations; each sum is weighted by w(j) (unity for an unweighted fit)
     for (j = 0; j < n; ++j)
     {
-      xj      = x[j];
-      yj      = y[j];
-      tmp     = new Array<number>();
-      tmp[1]  = xj;
-      b[0]   += yj;
+      xj        = x[j];
+      yj        = y[j];
+      wj        = weights[j];
+      tmp       = new Array<number>();
+      tmp[1]    = xj;
+      asums[0] += wj;
+      b[0]     += wj * yj;
 
       for (i = 2; i <= len; ++i) {
         tmp[i] = tmp[i - 1] * xj;
@@ -112,10 +513,10 @@ export class TSMT$Pllsq
 
       for (i = 1; i <= len; ++i)
       {
-        asums[i] += tmp[i];
+        asums[i] += wj * tmp[i];
 
         if (i < m) {
-          b[i] += tmp[i] * yj;
+          b[i] += wj * tmp[i] * yj;
         }
       }
     }
@@ -135,46 +536,766 @@ export class TSMT$Pllsq
       start++;
     }
 
+    // the normal-equation matrix is (A^T W A), so its condition number is the square of that of the weighted design
+    // matrix
+    const sv: Array<number> = this.__singularValues( this.__design(x, m, weights, 0, 1) );
+    const cond: number      = this.__cond(sv);
+
     // Solve Ac = b for the coefficient vector, c
     this._matrix.fromArray(a);
-    this._c = this._matrix.solve(b);
-    this._n = m;
+    this._c      = this._matrix.solve(b);
+    this._n      = m;
+    this._t      = this._c.slice();
+    this._offset = 0;
+    this._scale  = 1;
 
-    // rms error
-    let s: number = 0.0;
-    let t: number;
+    // the matrix is already factorized, so each column of the inverse is a single solve
+    this._inv = this._c.length == 0 ? new Array< Array<number> >() : this.__identity(m).map( (e: Array<number>): Array<number> => {
+      return this._matrix.solve(e);
+    });
 
-    for (i = 0; i < n; ++i)
+    return cond*cond;
+  }
+
+  // fit from a QR or SVD solution of the weighted design matrix in t = (x - offset) / scale, with x mapped onto [-1, 1];
+  // returns the condition number of the scaled design matrix
+  protected __orthogonal(x: Array<number>, y: Array<number>, m: number, weights: Array<number>): number
+  {
+    const range: {offset: number, scale: number} = this.__range(x);
+    const offset: number                         = range.offset;
+    const scale: number                          = range.scale;
+
+    const a: Array< Array<number> > = this.__design(x, m, weights, offset, scale);
+    const b: Array<number>          = y.map( (v: number, j: number): number => {return Math.sqrt(weights[j])*v} );
+
+    let t: Array<number>;
+    let cond: number;
+
+    if (this._solver == TSMT$Pllsq.SVD)
     {
-      t  = this.eval(x[i]) - y[i];
-      s += t*t;
+      const svd: {u: Array< Array<number> >, s: Array<number>, v: Array< Array<number> >} = this.__svd(a);
+
+      t    = this.__svdSolve(svd, b);
+      cond = this.__cond(svd.s);
+
+      this._inv = this.__svdInverse(svd);
     }
+    else
+    {
+      const qr: {r: Array< Array<number> >, c: Array<number>} = this.__householder(a, b);
 
-    return { coef:this._c, rms:Math.sqrt(s/n) };
+      t    = this.__backSubstitute(qr.r, qr.c);
+      cond = t.length > 0 ? this.__cond( this.__singularValues(qr.r) ) : Infinity;
+
+      // R^-1 R^-T, from the columns of R^-1
+      this._inv = t.length > 0 ? this.__gram( this.__identity(m).map( (e: Array<number>): Array<number> => {
+        return this.__backSubstitute(qr.r, e);
+      }), m ) : new Array< Array<number> >();
+    }
+
+    this._t      = t;
+    this._offset = offset;
+    this._scale  = scale;
+    this._c      = t.length > 0 ? TSMT$Polynomial.toMonomial(t, offset, scale) : new Array<number>();
+    this._n      = this._c.length;
+
+    return cond;
   }
 
-  /**
-   * Evaluate the LS polynomial at an input value
-   *
-   * @param {number} x x-coordinate at which the polynomial is to be evaluated
-   *
-   * @returns {number} LS polynomial evaluated at the specified x-coordinate, or zero if the fit() method is not called
-   * before the evaluate method.
-   */
-  public eval(x: number): number
+  // fit subject to equality constraints by the null-space method.  With constraints C t = d (in the variable of the
+  // solver), every solution is t = t0 + Z z for a particular solution, t0, and a basis, Z, for the null space of C, both
+  // from the SVD of C; the remaining free coefficients, z, are the unconstrained least-squares solution of
+  // (A Z) z = b - A t0 by the selected solver.  Returns the condition number of the reduced system (of the constraint
+  // matrix if no coefficients are free), the number of free coefficients, and a message if the constraints are
+  // invalid or inconsistent
+  protected __constrained(x: Array<number>,
+                          y: Array<number>,
+                          m: number,
+                          weights: Array<number>,
+                          constraints: Array<IPolyConstraint>,
+                          positive: number): {cond: number, free: number, error: string}
   {
-    if (this._c.length == 0) {
-      return 0.0;
+    const range: {offset: number, scale: number} = this._solver == TSMT$Pllsq.NORMAL ? {offset: 0, scale: 1} : this.__range(x);
+    const offset: number                         = range.offset;
+    const scale: number                          = range.scale;
+
+    const rows: Array< Array<number> > = new Array< Array<number> >();
+    const d: Array<number>             = new Array<number>();
+
+    let i: number, j: number, k: number, l: number, norm: number, sum: number;
+    let row: Array<number>;
+
+    for (i = 0; i < constraints.length; ++i)
+    {
+      row = this.__constraintRow(constraints[i], m, offset, scale);
+
+      if (!row) {
+        return {cond: 0, free: 0, error: 'invalid constraint at index ' + i};
+      }
+
+      // normalize each row, so that a single tolerance applies to every constraint
+      norm = Math.sqrt( row.reduce( (s: number, v: number): number => {return s + v*v}, 0.0 ) );
+      norm = norm > 0 ? norm : 1.0;
+
+      rows.push( row.map( (v: number): number => {return v/norm} ) );
+      d.push(constraints[i].value/norm);
+    }
+
+    // pad to a square system if there are fewer constraints than coefficients, so that V spans the full space
+    while (rows.length < m)
+    {
+      row = new Array<number>();
+      for (j = 0; j < m; ++j) {
+        row[j] = 0.0;
+      }
+
+      rows.push(row);
+      d.push(0.0);
+    }
+
+    const svd: {u: Array< Array<number> >, s: Array<number>, v: Array< Array<number> >} = this.__svd(rows);
+
+    const tol: number       = Math.max(rows.length, m)*TSMT$Pllsq.EPS*Math.max(Math.max.apply(null, svd.s), 1.0);
+    const t0: Array<number> = this.__svdSolve(svd, d);
+
+    // the minimum-norm solution satisfies every constraint unless they are inconsistent
+    let residual: number = 0.0;
+    let dnorm: number    = 0.0;
+
+    for (i = 0; i < rows.length; ++i)
+    {
+      sum = -d[i];
+      for (j = 0; j < m; ++j) {
+        sum += rows[i][j]*t0[j];
+      }
+
+      residual += sum*sum;
+      dnorm    += d[i]*d[i];
+    }
+
+    if (Math.sqrt(residual) > Math.sqrt(TSMT$Pllsq.EPS)*(1.0 + Math.sqrt(dnorm))) {
+      return {cond: 0, free: 0, error: 'inconsistent constraints; no polynomial of order ' + (m-1) + ' satisfies all of them'};
     }
 
-    const n: number = this._c.length;
-    let val: number = this._c[n-1];
+    // null-space basis, columns of V for zero singular values
+    const z: Array< Array<number> > = new Array< Array<number> >();
+    const rank: Array<number>       = new Array<number>();
+
+    for (k = 0; k < m; ++k)
+    {
+      if (svd.s[k] <= tol) {
+        z.push( svd.v.map( (r: Array<number>): number => {return r[k]} ) );
+      }
+      else {
+        rank.push(svd.s[k]);
+      }
+    }
+
+    const free: number = z.length;
+
+    if (positive <= free) {
+      return {cond: 0, free: free, error: 'too few points for the free coefficients; at least ' + (free + 1) + ' are required'};
+    }
+
+    // covariance is zero (an empty sum) if the constraints fix every coefficient
+    const t: Array<number>            = t0.slice();
+    const inv: Array< Array<number> > = this.__gram([], m);
+    let cond: number                  = this.__cond(rank);
+
+    if (free > 0)
+    {
+      // reduced design matrix, A Z, and right-hand side, b - A t0
+      const a: Array< Array<number> >  = this.__design(x, m, weights, offset, scale);
+      const az: Array< Array<number> > = new Array< Array<number> >();
+      const br: Array<number>          = new Array<number>();
+
+      for (i = 0; i < a.length; ++i)
+      {
+        az[i] = new Array<number>();
+        br[i] = Math.sqrt(weights[i])*y[i];
+
+        for (j = 0; j < m; ++j) {
+          br[i] -= a[i][j]*t0[j];
+        }
+
+        for (k = 0; k < free; ++k)
+        {
+          az[i][k] = 0.0;
+
+          for (j = 0; j < m; ++j) {
+            az[i][k] += a[i][j]*z[k][j];
+          }
+        }
+      }
+
+      const reduced: {z: Array<number>, inv: Array< Array<number> >, cond: number} = this.__reduced(az, br);
+
+      if (reduced.z.length == 0) {
+        return {cond: Infinity, free: free, error: undefined};
+      }
+
+      cond = reduced.cond;
+
+      for (k = 0; k < free; ++k)
+      {
+        for (j = 0; j < m; ++j) {
+          t[j] += z[k][j]*reduced.z[k];
+        }
+      }
+
+      // Z (Z^T A^T W A Z)^-1 Z^T
+      for (i = 0; i < m; ++i)
+      {
+        for (j = 0; j < m; ++j)
+        {
+          sum = 0.0;
+
+          for (k = 0; k < free; ++k)
+          {
+            for (l = 0; l < free; ++l) {
+              sum += z[k][i]*reduced.inv[k][l]*z[l][j];
+            }
+          }
+
+          inv[i][j] = sum;
+        }
+      }
+    }
+
+    this._t      = t;
+    this._offset = offset;
+    this._scale  = scale;
+    this._inv    = inv;
+    this._c      = TSMT$Polynomial.toMonomial(t, offset, scale);
+    this._n      = this._c.length;
+
+    return {cond: cond, free: free, error: undefined};
+  }
+
+  // coefficients of a constraint in t = (x - offset) / scale, or null if the constraint is invalid
+  protected __constraintRow(constraint: IPolyConstraint, m: number, offset: number, scale: number): Array<number>
+  {
+    if (!constraint || !isFinite(constraint.value)) {
+      return null;
+    }
+
+    const row: Array<number> = new Array<number>();
+    const index: number      = constraint.coef;
+    let k: number, j: number, f: number;
+
+    if (index !== undefined && index !== null)
+    {
+      if (isNaN(index) || Math.floor(index) != index || index < 0 || index >= m) {
+        return null;
+      }
+
+      // coefficient of x^index in the expansion of each power of t
+      return this.__identity(m).map( (e: Array<number>): number => {
+        return TSMT$Polynomial.toMonomial(e, offset, scale)[index];
+      });
+    }
+
+    const order: number = constraint.derivative === undefined || constraint.derivative === null ? 0 : constraint.derivative;
+
+    if (!isFinite(constraint.x) || isNaN(order) || Math.floor(order) != order || order < 0) {
+      return null;
+    }
+
+    // d^order/dx^order of t^k is k!/(k-order)! t^(k-order) / scale^order
+    const t: number = (constraint.x - offset) / scale;
+
+    for (k = 0; k < m; ++k)
+    {
+      if (k < order)
+      {
+        row[k] = 0.0;
+        continue;
+      }
+
+      f = 1.0;
+      for (j = k-order+1; j <= k; ++j) {
+        f *= j;
+      }
+
+      row[k] = f * Math.pow(t, k-order) / Math.pow(scale, order);
+    }
+
+    return row;
+  }
+
+  // unconstrained least-squares solution of a (weighted) reduced system by the selected solver; returns the solution,
+  // (A^T A)^-1, and the condition number of the system that was solved (empty solution if it is singular)
+  protected __reduced(a: Array< Array<number> >, b: Array<number>): {z: Array<number>, inv: Array< Array<number> >, cond: number}
+  {
+    const q: number = a[0].length;
+
+    let z: Array<number>;
+    let inv: Array< Array<number> >;
+
+    if (this._solver == TSMT$Pllsq.SVD)
+    {
+      const svd: {u: Array< Array<number> >, s: Array<number>, v: Array< Array<number> >} = this.__svd(a);
+
+      return {z: this.__svdSolve(svd, b), inv: this.__svdInverse(svd), cond: this.__cond(svd.s)};
+    }
+
+    if (this._solver == TSMT$Pllsq.QR)
+    {
+      const qr: {r: Array< Array<number> >, c: Array<number>} = this.__householder(a, b);
+
+      z   = this.__backSubstitute(qr.r, qr.c);
+      inv = z.length > 0 ? this.__gram( this.__identity(q).map( (e: Array<number>): Array<number> => {
+        return this.__backSubstitute(qr.r, e);
+      }), q ) : new Array< Array<number> >();
+
+      return {z: z, inv: inv, cond: z.length > 0 ? this.__cond( this.__singularValues(qr.r) ) : Infinity};
+    }
+
+    // normal equations, (A^T A) z = A^T b
+    const n: number                   = a.length;
+    const ata: Array< Array<number> > = new Array< Array<number> >();
+    const atb: Array<number>          = new Array<number>();
+    let i: number, j: number, k: number;
+
+    for (i = 0; i < q; ++i)
+    {
+      ata[i] = new Array<number>();
+      atb[i] = 0.0;
+
+      for (k = 0; k < n; ++k) {
+        atb[i] += a[k][i]*b[k];
+      }
+
+      for (j = 0; j < q; ++j)
+      {
+        ata[i][j] = 0.0;
+
+        for (k = 0; k < n; ++k) {
+          ata[i][j] += a[k][i]*a[k][j];
+        }
+      }
+    }
+
+    const cond: number = this.__cond( this.__singularValues(a) );
+
+    this._matrix.fromArray(ata);
+    z   = this._matrix.solve(atb);
+    inv = z.length == 0 ? new Array< Array<number> >() : this.__identity(q).map( (e: Array<number>): Array<number> => {
+      return this._matrix.solve(e);
+    });
+
+    return {z: z, inv: inv, cond: cond*cond};
+  }
+
+  // offset and scale that map the range of x onto [-1, 1]
+  protected __range(x: Array<number>): {offset: number, scale: number}
+  {
+    const n: number = x.length;
+    let min: number = x[0];
+    let max: number = x[0];
     let i: number;
 
-    for (i = n-2; i >= 0; i--) {
-      val = x * val + this._c[i];
+    for (i = 1; i < n; ++i)
+    {
+      min = Math.min(min, x[i]);
+      max = Math.max(max, x[i]);
     }
 
-    return val;
+    return {offset: 0.5*(min + max), scale: max > min ? 0.5*(max - min) : 1.0};
+  }
+
+  // weighted Vandermonde design matrix, sqrt(w(j)) * t(j)^i for t = (x - offset) / scale
+  protected __design(x: Array<number>, m: number, weights: Array<number>, offset: number, scale: number): Array< Array<number> >
+  {
+    return x.map( (v: number, j: number): Array<number> => {
+      const t: number          = (v - offset) / scale;
+      const row: Array<number> = [Math.sqrt(weights[j])];
+      let i: number;
+
+      for (i = 1; i < m; ++i) {
+        row[i] = row[i-1]*t;
+      }
+
+      return row;
+    });
+  }
+
+  // Householder QR factorization of an n x m (n > m) matrix, applied to the right-hand side along the way; returns the
+  // m x m upper-triangular factor, R, and the first m elements of Q^T b
+  protected __householder(a: Array< Array<number> >, b: Array<number>): {r: Array< Array<number> >, c: Array<number>}
+  {
+    const n: number                 = a.length;
+    const m: number                 = a[0].length;
+    const q: Array< Array<number> > = a.map( (row: Array<number>): Array<number> => {return row.slice()} );
+    const c: Array<number>          = b.slice();
+
+    let i: number, j: number, k: number;
+    let norm: number, alpha: number, vnorm: number, dot: number;
+    let v: Array<number>;
+
+    for (k = 0; k < m; ++k)
+    {
+      norm = 0.0;
+      for (i = k; i < n; ++i) {
+        norm += q[i][k]*q[i][k];
+      }
+
+      norm = Math.sqrt(norm);
+      if (norm == 0.0) {
+        continue;
+      }
+
+      // reflect column k onto -sign(a(k,k)) * norm * e(k)
+      alpha = q[k][k] > 0 ? -norm : norm;
+      v     = new Array<number>();
+
+      for (i = k; i < n; ++i) {
+        v[i] = q[i][k];
+      }
+
+      v[k] -= alpha;
+
+      vnorm = 0.0;
+      for (i = k; i < n; ++i) {
+        vnorm += v[i]*v[i];
+      }
+
+      // apply I - 2vv^T/(v^T v) to the remaining columns and the right-hand side
+      for (j = k; j < m; ++j)
+      {
+        dot = 0.0;
+        for (i = k; i < n; ++i) {
+          dot += v[i]*q[i][j];
+        }
+
+        dot = 2.0*dot/vnorm;
+        for (i = k; i < n; ++i) {
+          q[i][j] -= dot*v[i];
+        }
+      }
+
+      dot = 0.0;
+      for (i = k; i < n; ++i) {
+        dot += v[i]*c[i];
+      }
+
+      dot = 2.0*dot/vnorm;
+      for (i = k; i < n; ++i) {
+        c[i] -= dot*v[i];
+      }
+    }
+
+    const r: Array< Array<number> > = new Array< Array<number> >();
+    for (i = 0; i < m; ++i)
+    {
+      r[i] = new Array<number>();
+
+      for (j = 0; j < m; ++j) {
+        r[i][j] = j < i ? 0.0 : q[i][j];
+      }
+    }
+
+    return {r: r, c: c.slice(0, m)};
+  }
+
+  // solve Rx = c for upper-triangular R; empty if R is (numerically) singular
+  protected __backSubstitute(r: Array< Array<number> >, c: Array<number>): Array<number>
+  {
+    const m: number        = r.length;
+    const x: Array<number> = new Array<number>();
+
+    let big: number = 0.0;
+    let i: number, j: number, s: number;
+
+    for (i = 0; i < m; ++i) {
+      big = Math.max(big, Math.abs(r[i][i]));
+    }
+
+    for (i = m-1; i >= 0; i--)
+    {
+      if (Math.abs(r[i][i]) <= m*TSMT$Pllsq.EPS*big) {
+        return new Array<number>();
+      }
+
+      s = c[i];
+      for (j = i+1; j < m; ++j) {
+        s -= r[i][j]*x[j];
+      }
+
+      x[i] = s / r[i][i];
+    }
+
+    return x;
+  }
+
+  // one-sided Jacobi SVD of an n x m (n >= m) matrix, A = U S V^T; U is n x m, S is a vector of m singular values
+  protected __svd(a: Array< Array<number> >): {u: Array< Array<number> >, s: Array<number>, v: Array< Array<number> >}
+  {
+    const n: number                 = a.length;
+    const m: number                 = a[0].length;
+    const u: Array< Array<number> > = a.map( (row: Array<number>): Array<number> => {return row.slice()} );
+    const v: Array< Array<number> > = new Array< Array<number> >();
+
+    let i: number, j: number, k: number, sweep: number;
+    let alpha: number, beta: number, gamma: number, zeta: number, t: number, cs: number, sn: number, tmp: number;
+    let rotated: boolean;
+
+    for (i = 0; i < m; ++i)
+    {
+      v[i] = new Array<number>();
+
+      for (j = 0; j < m; ++j) {
+        v[i][j] = i == j ? 1.0 : 0.0;
+      }
+    }
+
+    // rotate pairs of columns until all columns are mutually orthogonal
+    for (sweep = 0; sweep < 60; ++sweep)
+    {
+      rotated = false;
+
+      for (j = 0; j < m-1; ++j)
+      {
+        for (k = j+1; k < m; ++k)
+        {
+          alpha = 0.0;
+          beta  = 0.0;
+          gamma = 0.0;
+
+          for (i = 0; i < n; ++i)
+          {
+            alpha += u[i][j]*u[i][j];
+            beta  += u[i][k]*u[i][k];
+            gamma += u[i][j]*u[i][k];
+          }
+
+          if (Math.abs(gamma) <= TSMT$Pllsq.EPS*Math.sqrt(alpha*beta)) {
+            continue;
+          }
+
+          rotated = true;
+
+          zeta = (beta - alpha) / (2.0*gamma);
+          t    = (zeta >= 0 ? 1.0 : -1.0) / (Math.abs(zeta) + Math.sqrt(1.0 + zeta*zeta));
+          cs   = 1.0 / Math.sqrt(1.0 + t*t);
+          sn   = cs*t;
+
+          for (i = 0; i < n; ++i)
+          {
+            tmp     = u[i][j];
+            u[i][j] = cs*tmp - sn*u[i][k];
+            u[i][k] = sn*tmp + cs*u[i][k];
+          }
+
+          for (i = 0; i < m; ++i)
+          {
+            tmp     = v[i][j];
+            v[i][j] = cs*tmp - sn*v[i][k];
+            v[i][k] = sn*tmp + cs*v[i][k];
+          }
+        }
+      }
+
+      if (!rotated) {
+        break;
+      }
+    }
+
+    // singular values are the column norms; normalize the columns of U
+    const s: Array<number> = new Array<number>();
+
+    for (j = 0; j < m; ++j)
+    {
+      t = 0.0;
+      for (i = 0; i < n; ++i) {
+        t += u[i][j]*u[i][j];
+      }
+
+      s[j] = Math.sqrt(t);
+
+      for (i = 0; i < n; ++i) {
+        u[i][j] = s[j] > 0 ? u[i][j]/s[j] : 0.0;
+      }
+    }
+
+    return {u: u, s: s, v: v};
+  }
+
+  // least-squares solution, x = V S^-1 U^T b, with singular values below a relative tolerance treated as zero
+  protected __svdSolve(svd: {u: Array< Array<number> >, s: Array<number>, v: Array< Array<number> >}, b: Array<number>): Array<number>
+  {
+    const n: number        = svd.u.length;
+    const m: number        = svd.s.length;
+    const tol: number      = Math.max(n, m)*TSMT$Pllsq.EPS*Math.max.apply(null, svd.s);
+    const x: Array<number> = new Array<number>();
+
+    let i: number, j: number, c: number;
+
+    for (i = 0; i < m; ++i) {
+      x[i] = 0.0;
+    }
+
+    for (j = 0; j < m; ++j)
+    {
+      if (svd.s[j] <= tol) {
+        continue;
+      }
+
+      c = 0.0;
+      for (i = 0; i < n; ++i) {
+        c += svd.u[i][j]*b[i];
+      }
+
+      c /= svd.s[j];
+      for (i = 0; i < m; ++i) {
+        x[i] += c*svd.v[i][j];
+      }
+    }
+
+    return x;
+  }
+
+  // (A^T A)^-1 = V S^-2 V^T, excluding the same singular values as the least-squares solution
+  protected __svdInverse(svd: {u: Array< Array<number> >, s: Array<number>, v: Array< Array<number> >}): Array< Array<number> >
+  {
+    const n: number   = svd.u.length;
+    const m: number   = svd.s.length;
+    const tol: number = Math.max(n, m)*TSMT$Pllsq.EPS*Math.max.apply(null, svd.s);
+
+    // scaled columns of V, v(k) / s(k)
+    const cols: Array< Array<number> > = new Array< Array<number> >();
+    let i: number, k: number;
+
+    for (k = 0; k < m; ++k)
+    {
+      if (svd.s[k] <= tol) {
+        continue;
+      }
+
+      cols.push( new Array<number>() );
+
+      for (i = 0; i < m; ++i) {
+        cols[cols.length-1][i] = svd.v[i][k] / svd.s[k];
+      }
+    }
+
+    return this.__gram(cols, m);
+  }
+
+  // m x m matrix, sum over k of c(k) c(k)^T, for a set of column vectors
+  protected __gram(cols: Array< Array<number> >, m: number): Array< Array<number> >
+  {
+    const g: Array< Array<number> > = new Array< Array<number> >();
+    let i: number, j: number;
+
+    for (i = 0; i < m; ++i)
+    {
+      g[i] = new Array<number>();
+
+      for (j = 0; j < m; ++j) {
+        g[i][j] = cols.reduce( (sum: number, c: Array<number>): number => {return sum + c[i]*c[j]}, 0.0 );
+      }
+    }
+
+    return g;
+  }
+
+  // m x m identity, as an array of unit vectors
+  protected __identity(m: number): Array< Array<number> >
+  {
+    const e: Array< Array<number> > = new Array< Array<number> >();
+    let i: number, j: number;
+
+    for (i = 0; i < m; ++i)
+    {
+      e[i] = new Array<number>();
+
+      for (j = 0; j < m; ++j) {
+        e[i][j] = i == j ? 1.0 : 0.0;
+      }
+    }
+
+    return e;
+  }
+
+  // covariance of the reported coefficients, variance * T (A^T W A)^-1 T^T, where T maps coefficients in t to those in x
+  protected __covariance(variance: number): Array< Array<number> >
+  {
+    const m: number = this._inv.length;
+
+    // column k of T holds the coefficients in x of the k-th power of t
+    const cols: Array< Array<number> > = this.__identity(m).map( (e: Array<number>): Array<number> => {
+      return TSMT$Polynomial.toMonomial(e, this._offset, this._scale);
+    });
+
+    const cov: Array< Array<number> > = new Array< Array<number> >();
+    let i: number, j: number, k: number, l: number, sum: number;
+
+    for (i = 0; i < m; ++i)
+    {
+      cov[i] = new Array<number>();
+
+      for (j = 0; j < m; ++j)
+      {
+        sum = 0.0;
+
+        for (k = 0; k < m; ++k)
+        {
+          for (l = 0; l < m; ++l) {
+            sum += cols[k][i]*this._inv[k][l]*cols[l][j];
+          }
+        }
+
+        cov[i][j] = variance*sum;
+      }
+    }
+
+    return cov;
+  }
+
+  // singular values of a matrix with at least as many rows as columns
+  protected __singularValues(a: Array< Array<number> >): Array<number>
+  {
+    return this.__svd(a).s;
+  }
+
+  // ratio of largest to smallest singular value
+  protected __cond(s: Array<number>): number
+  {
+    const max: number = Math.max.apply(null, s);
+    const min: number = Math.min.apply(null, s);
+
+    return min > 0 ? max/min : Infinity;
+  }
+
+  // per-point weights for a fit; unity if none are supplied, 1/sigma^2 for measurement sigmas, and null if invalid
+  protected __weights(n: number, w: Array<number>, sigma: boolean): Array<number>
+  {
+    const weights: Array<number> = new Array<number>();
+    let i: number;
+
+    if (!w)
+    {
+      for (i = 0; i < n; ++i) {
+        weights.push(1.0);
+      }
+
+      return weights;
+    }
+
+    if (w.length != n) {
+      return null;
+    }
+
+    for (i = 0; i < n; ++i)
+    {
+      if (isNaN(w[i]) || w[i] < 0 || (sigma && w[i] == 0)) {
+        return null;
+      }
+
+      weights.push( sigma ? 1.0/(w[i]*w[i]) : w[i] );
+    }
+
+    return weights;
   }
 }
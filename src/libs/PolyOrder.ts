@@ -0,0 +1,228 @@
+/**
+ * Copyright 2016 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Typescript Math Toolkit.  Polynomial order selection.  Polynomials of order 1 through a maximum order are fit with
+ * TSMT$Pllsq (QR solver) and ranked by AIC, BIC, adjusted R^2, or k-fold cross-validation error.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+import { TSMT$Pllsq
+       , IPolyLLSQResult } from "./Pllsq";
+
+export interface IPolyOrderCandidate
+{
+  order: number;
+
+  aic: number;        // Akaike information criterion, n*ln(chi2/n) + 2k for k coefficients
+
+  bic: number;        // Bayesian information criterion, n*ln(chi2/n) + k*ln(n)
+
+  rAdj: number;       // adjusted R^2
+
+  cv: number;         // k-fold cross-validation error, (weighted) mean squared error of held-out predictions; Infinity if
+                      // some fold has too few points for this order
+
+  fit: IPolyLLSQResult;   // fit to the full data set
+}
+
+export interface IPolyOrderSelection
+{
+  order: number;                          // selected order (zero if no order could be fit)
+
+  criterion: string;                      // selection criterion, one of the TSMT$PolyOrder constants
+
+  fit: IPolyLLSQResult;                   // fit at the selected order (null if no order could be fit)
+
+  candidates: Array<IPolyOrderCandidate>; // every order that could be fit, best first
+}
+
+export class TSMT$PolyOrder
+{
+  // selection criteria
+  public static AIC: string    = 'aic';
+  public static BIC: string    = 'bic';
+  public static ADJ_R2: string = 'adj-r2';
+  public static CV: string     = 'cv';
+
+  constructor()
+  {
+    // empty
+  }
+
+ /**
+  * Select the order of a polynomial least-squares fit
+  *
+  * @param {Array<number>} x Array of x-coordinates (n data points)
+  *
+  * @param {Array<number>} y Array of y-coordinates (n data points)
+  *
+  * @param {number} maxOrder Maximum order to consider; reduced to n-2 (the highest order that can be fit) if necessary
+  *
+  * @param {string} criterion Selection criterion, one of the TSMT$PolyOrder constants
+  * @default TSMT$PolyOrder.AIC
+  *
+  * @param {number} folds Number of cross-validation folds (point i is held out in fold i mod folds); reduced to n
+  * (leave-one-out) if necessary
+  * @default 5
+  *
+  * @param {Array<number>} w Optional per-point weights or measurement sigmas (see TSMT$Pllsq.fit)
+  *
+  * @param {boolean} sigma True if w contains measurement standard deviations
+  * @default false
+  *
+  * @returns {IPolyOrderSelection} Selected order, its fit, and the ranked table of candidates.  Ties are broken in
+  * favor of the lower order.
+  */
+  public static select(x: Array<number>,
+                       y: Array<number>,
+                       maxOrder: number,
+                       criterion: string = TSMT$PolyOrder.AIC,
+                       folds: number = 5,
+                       w?: Array<number>,
+                       sigma: boolean = false): IPolyOrderSelection
+  {
+    const criteria: Array<string> = [TSMT$PolyOrder.AIC, TSMT$PolyOrder.BIC, TSMT$PolyOrder.ADJ_R2, TSMT$PolyOrder.CV];
+    criterion                     = criteria.indexOf(criterion) != -1 ? criterion : TSMT$PolyOrder.AIC;
+
+    const empty: IPolyOrderSelection = {order: 0, criterion: criterion, fit: null, candidates: []};
+
+    if (!x || !y || x.length != y.length || x.length < 3) {
+      return empty;
+    }
+
+    const n: number = x.length;
+    maxOrder        = isNaN(maxOrder) || maxOrder < 1 ? 1 : Math.min( Math.round(maxOrder), n-2 );
+    folds           = isNaN(folds) || folds < 2 ? 5 : Math.round(folds);
+    folds           = Math.min(folds, n);
+
+    const pllsq: TSMT$Pllsq                      = new TSMT$Pllsq();
+    const candidates: Array<IPolyOrderCandidate> = new Array<IPolyOrderCandidate>();
+
+    let order: number, k: number, count: number;
+    let fit: IPolyLLSQResult;
+
+    pllsq.solver = TSMT$Pllsq.QR;
+
+    for (order = 1; order <= maxOrder; ++order)
+    {
+      fit = pllsq.fit(x, y, order, w, sigma);
+
+      if (fit.coef.length == 0) {
+        continue;
+      }
+
+      // information criteria use the number of points with positive weight
+      k     = order + 1;
+      count = fit.dof + k;
+
+      candidates.push({
+        order: order,
+        aic: count*Math.log(fit.chi2/count) + 2*k,
+        bic: count*Math.log(fit.chi2/count) + k*Math.log(count),
+        rAdj: fit.rAdj,
+        cv: TSMT$PolyOrder.__crossValidate(x, y, order, folds, w, sigma),
+        fit: fit
+      });
+    }
+
+    if (candidates.length == 0) {
+      return empty;
+    }
+
+    candidates.sort( (a: IPolyOrderCandidate, b: IPolyOrderCandidate): number => {
+      const diff: number = TSMT$PolyOrder.__score(a, criterion) - TSMT$PolyOrder.__score(b, criterion);
+
+      return diff < 0 ? -1 : (diff > 0 ? 1 : a.order - b.order);
+    });
+
+    return {order: candidates[0].order, criterion: criterion, fit: candidates[0].fit, candidates: candidates};
+  }
+
+  // candidate score under a criterion; lower is better
+  protected static __score(candidate: IPolyOrderCandidate, criterion: string): number
+  {
+    switch (criterion)
+    {
+      case TSMT$PolyOrder.BIC:
+        return candidate.bic;
+
+      case TSMT$PolyOrder.ADJ_R2:
+        return -candidate.rAdj;
+
+      case TSMT$PolyOrder.CV:
+        return candidate.cv;
+
+      default:
+        return candidate.aic;
+    }
+  }
+
+  // k-fold cross-validation error for a single order
+  protected static __crossValidate(x: Array<number>,
+                                   y: Array<number>,
+                                   order: number,
+                                   folds: number,
+                                   w: Array<number>,
+                                   sigma: boolean): number
+  {
+    const n: number         = x.length;
+    const pllsq: TSMT$Pllsq = new TSMT$Pllsq();
+
+    let sse: number = 0.0;
+    let sw: number  = 0.0;
+    let fold: number, i: number, r: number, wi: number;
+    let xt: Array<number>, yt: Array<number>, wt: Array<number>;
+
+    pllsq.solver = TSMT$Pllsq.QR;
+
+    for (fold = 0; fold < folds; ++fold)
+    {
+      xt = new Array<number>();
+      yt = new Array<number>();
+      wt = w ? new Array<number>() : undefined;
+
+      for (i = 0; i < n; ++i)
+      {
+        if (i % folds != fold)
+        {
+          xt.push(x[i]);
+          yt.push(y[i]);
+
+          if (w) {
+            wt.push(w[i]);
+          }
+        }
+      }
+
+      if (pllsq.fit(xt, yt, order, wt, sigma).coef.length == 0) {
+        return Infinity;
+      }
+
+      for (i = fold; i < n; i += folds)
+      {
+        wi   = !w ? 1.0 : (sigma ? 1.0/(w[i]*w[i]) : w[i]);
+        r    = pllsq.eval(x[i]) - y[i];
+        sse += wi*r*r;
+        sw  += wi;
+      }
+    }
+
+    return sw > 0 ? sse/sw : Infinity;
+  }
+}
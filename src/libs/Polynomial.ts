@@ -0,0 +1,404 @@
+/**
+ * Copyright 2016 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Typescript Math Toolkit.  Calculus and root-finding on a polynomial, i.e. a fitted model from TSMT$Pllsq.  The
+ * polynomial is stored as c0 + c1*t + c2*t^2 + ... in the shifted and scaled variable t = (x - offset) / scale, which
+ * is the form produced by the QR and SVD solvers; every method accepts and returns x.  Derivatives and antiderivatives
+ * are new polynomials in the same variable.  Roots and stationary points are isolated in an interval by the roots of
+ * the derivative (found recursively) and refined by bisection, so they are reliable for the small orders used in
+ * least-squares fits.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+export interface IPolyExtremum
+{
+  x: number;
+
+  y: number;
+
+  type: string;   // TSMT$Polynomial.MIN, MAX, or STATIONARY (a stationary point of inflection)
+}
+
+export class TSMT$Polynomial
+{
+  // types of stationary point
+  public static MIN: string        = 'min';
+  public static MAX: string        = 'max';
+  public static STATIONARY: string = 'stationary';
+
+  protected static EPS: number   = 2.2e-16;
+  protected static MAXIT: number = 200;
+
+  protected _c: Array<number>;   // coefficients in t
+  protected _offset: number;
+  protected _scale: number;
+
+  /**
+   * Construct a new polynomial
+   *
+   * @param {Array<number>} coef Coefficients, c0 + c1*t + c2*t^2 + ...; the zero polynomial if omitted or invalid
+   *
+   * @param {number} offset Offset of the variable, t = (x - offset) / scale
+   * @default 0
+   *
+   * @param {number} scale Scale of the variable (positive)
+   * @default 1
+   */
+  constructor(coef?: Array<number>, offset: number = 0, scale: number = 1)
+  {
+    const valid: boolean = !!coef && coef.length > 0 && coef.every( (c: number): boolean => {return isFinite(c)} );
+
+    this._c      = valid ? coef.slice() : [0.0];
+    this._offset = isFinite(offset) ? offset : 0;
+    this._scale  = isFinite(scale) && scale > 0 ? scale : 1;
+  }
+
+  /**
+   * Convert coefficients in a shifted and scaled variable to coefficients in x
+   *
+   * @param {Array<number>} t Coefficients c0 + c1*t + c2*t^2 + ... in t = (x - offset) / scale
+   *
+   * @param {number} offset Offset of the variable
+   *
+   * @param {number} scale Scale of the variable (nonzero)
+   *
+   * @returns {Array<number>} Coefficients a0 + a1*x + a2*x^2 + ... of the same polynomial, by binomial expansion of
+   * each power of t (empty if t is empty)
+   */
+  public static toMonomial(t: Array<number>, offset: number, scale: number): Array<number>
+  {
+    const m: number        = t ? t.length : 0;
+    const c: Array<number> = new Array<number>();
+
+    let binom: Array<number> = [1];
+    let k: number, j: number, f: number, next: Array<number>;
+
+    for (j = 0; j < m; ++j) {
+      c[j] = 0.0;
+    }
+
+    // (x - offset)^k / scale^k = sum over j of C(k,j) x^j (-offset)^(k-j) / scale^k
+    for (k = 0; k < m; ++k)
+    {
+      f = t[k] / Math.pow(scale, k);
+
+      for (j = 0; j <= k; ++j) {
+        c[j] += f * binom[j] * Math.pow(-offset, k-j);
+      }
+
+      next = [1];
+      for (j = 1; j <= k; ++j) {
+        next[j] = binom[j-1] + binom[j];
+      }
+
+      next[k+1] = 1;
+      binom     = next;
+    }
+
+    return c;
+  }
+
+  /**
+   * Access the coefficients in x, c0 + c1*x + c2*x^2 + ...
+   *
+   * @returns {Array<number>}
+   */
+  public get coef(): Array<number>
+  {
+    return TSMT$Polynomial.toMonomial(this._c, this._offset, this._scale);
+  }
+
+  /**
+   * Access the degree of the polynomial
+   *
+   * @returns {number} Power of the highest nonzero coefficient (zero for a constant or the zero polynomial)
+   */
+  public get degree(): number
+  {
+    let k: number = this._c.length-1;
+
+    while (k > 0 && this._c[k] == 0) {
+      k--;
+    }
+
+    return k;
+  }
+
+  /**
+   * Evaluate the polynomial
+   *
+   * @param {number} x x-coordinate
+   *
+   * @returns {number} Polynomial value at x
+   */
+  public eval(x: number): number
+  {
+    const t: number = (x - this._offset) / this._scale;
+    const n: number = this._c.length;
+    let val: number = this._c[n-1];
+    let i: number;
+
+    for (i = n-2; i >= 0; i--) {
+      val = t * val + this._c[i];
+    }
+
+    return val;
+  }
+
+  /**
+   * Evaluate a derivative of the polynomial
+   *
+   * @param {number} x x-coordinate
+   *
+   * @param {number} order Order of the derivative (non-negative integer)
+   * @default 1
+   *
+   * @returns {number} Derivative of the specified order at x, or NaN if the order is invalid
+   */
+  public derivative(x: number, order: number = 1): number
+  {
+    const p: TSMT$Polynomial = this.differentiate(order);
+
+    return p ? p.eval(x) : NaN;
+  }
+
+  /**
+   * Integrate the polynomial over an interval
+   *
+   * @param {number} a Lower limit
+   *
+   * @param {number} b Upper limit
+   *
+   * @returns {number} Definite integral from a to b (negative if b < a)
+   */
+  public integrate(a: number, b: number): number
+  {
+    const p: TSMT$Polynomial = this.antiderivative();
+
+    return p.eval(b) - p.eval(a);
+  }
+
+  /**
+   * Differentiate the polynomial
+   *
+   * @param {number} order Order of the derivative (non-negative integer)
+   * @default 1
+   *
+   * @returns {TSMT$Polynomial} New polynomial (the zero polynomial if the order exceeds the degree), or null if the
+   * order is invalid
+   */
+  public differentiate(order: number = 1): TSMT$Polynomial
+  {
+    if (isNaN(order) || order < 0 || Math.floor(order) != order) {
+      return null;
+    }
+
+    let c: Array<number> = this._c.slice();
+    let i: number, k: number;
+
+    // d/dx = (1/scale) d/dt
+    for (i = 0; i < order && c.length > 0; ++i)
+    {
+      for (k = 1; k < c.length; ++k) {
+        c[k-1] = k * c[k] / this._scale;
+      }
+
+      c.pop();
+    }
+
+    c = c.length > 0 ? c : [0.0];
+
+    return new TSMT$Polynomial(c, this._offset, this._scale);
+  }
+
+  /**
+   * Integrate the polynomial indefinitely
+   *
+   * @param {number} c Constant of integration, the value of the antiderivative at x = 0
+   * @default 0
+   *
+   * @returns {TSMT$Polynomial} New polynomial whose derivative is this polynomial
+   */
+  public antiderivative(c: number = 0): TSMT$Polynomial
+  {
+    const a: Array<number> = [0.0];
+    let k: number;
+
+    // integral dx = scale * integral dt
+    for (k = 0; k < this._c.length; ++k) {
+      a[k+1] = this._scale * this._c[k] / (k + 1);
+    }
+
+    const p: TSMT$Polynomial = new TSMT$Polynomial(a, this._offset, this._scale);
+
+    // shift so that the value at x = 0 is the constant of integration
+    a[0] = (isFinite(c) ? c : 0) - p.eval(0);
+
+    return new TSMT$Polynomial(a, this._offset, this._scale);
+  }
+
+  /**
+   * Find the real roots of the polynomial in an interval
+   *
+   * @param {number} a Left endpoint
+   *
+   * @param {number} b Right endpoint
+   *
+   * @returns {Array<number>} Roots in [a, b], in increasing order; repeated roots are reported once.  Empty if there are
+   * no roots or the polynomial is constant (including the zero polynomial).
+   */
+  public roots(a: number, b: number): Array<number>
+  {
+    if (!isFinite(a) || !isFinite(b)) {
+      return new Array<number>();
+    }
+
+    const left: number  = Math.min(a, b);
+    const right: number = Math.max(a, b);
+    const deg: number   = this.degree;
+
+    if (deg == 0) {
+      return new Array<number>();
+    }
+
+    if (deg == 1)
+    {
+      const x: number = this._offset - this._scale*this._c[0]/this._c[1];
+
+      return x >= left && x <= right ? [x] : new Array<number>();
+    }
+
+    // the polynomial is monotone between consecutive roots of its derivative
+    const knots: Array<number> = [left].concat(
+      this.differentiate().roots(left, right).filter( (v: number): boolean => {return v > left && v < right} ), [right]);
+
+    const roots: Array<number> = new Array<number>();
+    let i: number, fl: number, fr: number;
+
+    for (i = 0; i < knots.length; ++i)
+    {
+      // a root at a knot, including a repeated root at a stationary point
+      if (Math.abs( this.eval(knots[i]) ) <= this.__tolerance(knots[i])) {
+        roots.push(knots[i]);
+      }
+    }
+
+    for (i = 0; i < knots.length-1; ++i)
+    {
+      fl = this.eval(knots[i]);
+      fr = this.eval(knots[i+1]);
+
+      if (Math.abs(fl) > this.__tolerance(knots[i]) && Math.abs(fr) > this.__tolerance(knots[i+1]) && fl*fr < 0) {
+        roots.push( this.__bisect(knots[i], knots[i+1], fl) );
+      }
+    }
+
+    roots.sort( (u: number, v: number): number => {return u - v} );
+
+    // adjacent knots may resolve the same root
+    return roots.filter( (v: number, j: number): boolean => {
+      return j == 0 || v - roots[j-1] > Math.sqrt(TSMT$Polynomial.EPS)*this._scale;
+    });
+  }
+
+  /**
+   * Locate the stationary points of the polynomial in an interval
+   *
+   * @param {number} a Left endpoint
+   *
+   * @param {number} b Right endpoint
+   *
+   * @returns {Array<IPolyExtremum>} Local minima, maxima, and stationary points of inflection in [a, b], in increasing
+   * order of x.  Each is classified by the first non-vanishing derivative of order two or higher.  Endpoint values are
+   * not included unless the slope is zero there.
+   */
+  public extrema(a: number, b: number): Array<IPolyExtremum>
+  {
+    const first: TSMT$Polynomial = this.differentiate();
+    const deg: number            = this.degree;
+
+    return first.roots(a, b).map( (x: number): IPolyExtremum => {
+      let type: string       = TSMT$Polynomial.STATIONARY;
+      let p: TSMT$Polynomial = first;
+      let order: number, d: number;
+
+      for (order = 2; order <= deg; ++order)
+      {
+        p = p.differentiate();
+        d = p.eval(x);
+
+        if (Math.abs(d) > p.__tolerance(x))
+        {
+          type = order % 2 == 1 ? TSMT$Polynomial.STATIONARY : (d > 0 ? TSMT$Polynomial.MIN : TSMT$Polynomial.MAX);
+          break;
+        }
+      }
+
+      return {x: x, y: this.eval(x), type: type};
+    });
+  }
+
+  // bound on the rounding error of a polynomial evaluation, below which the value is considered zero
+  protected __tolerance(x: number): number
+  {
+    const t: number = Math.abs( (x - this._offset) / this._scale );
+    let sum: number = 0.0;
+    let k: number;
+
+    for (k = this._c.length-1; k >= 0; k--) {
+      sum = sum*t + Math.abs(this._c[k]);
+    }
+
+    return 4*this._c.length*TSMT$Polynomial.EPS*sum;
+  }
+
+  // bisect an interval where the polynomial changes sign
+  protected __bisect(left: number, right: number, fLeft: number): number
+  {
+    let mid: number = 0.5*(left + right);
+    let i: number, f: number;
+
+    for (i = 0; i < TSMT$Polynomial.MAXIT; ++i)
+    {
+      mid = 0.5*(left + right);
+
+      if (mid <= left || mid >= right) {
+        break;
+      }
+
+      f = this.eval(mid);
+
+      if (f == 0) {
+        break;
+      }
+
+      if (f*fLeft < 0) {
+        right = mid;
+      }
+      else
+      {
+        left  = mid;
+        fLeft = f;
+      }
+    }
+
+    return mid;
+  }
+}
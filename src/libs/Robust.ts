@@ -0,0 +1,436 @@
+/**
+ * Copyright 2016 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Typescript Math Toolkit.  Robust regression; line and polynomial fits that resist the pull of outliers.  Methods are
+ * iteratively reweighted least squares (IRLS) with Huber or Tukey bisquare weights, the Theil-Sen (median pairwise
+ * slope) line, and RANSAC.  Every fit reports the final weight of each point and an inlier mask, so that rejected points
+ * can be identified.  Residual scale is estimated by the median absolute residual, 1.4826 * median(|r|), which is
+ * consistent with the standard deviation for normally distributed residuals.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+import { TSMT$Pllsq      } from "./Pllsq";
+import { TSMT$Polynomial } from "./Polynomial";
+import { TSMT$Matrix     } from "./Matrix";
+import { TSMT$Deviates   } from "./Deviates";
+
+export interface IRobustFit
+{
+  coef: Array<number>;            // polynomial coefficients, c0 + c1*x + c2*x^2 + ... (empty if the fit failed)
+
+  polynomial: TSMT$Polynomial;    // fitted model, for evaluation and analysis
+
+  weights: Array<number>;         // final weight of each point in [0, 1]; the inlier mask (1 or 0) for Theil-Sen and
+                                  // RANSAC
+
+  inliers: Array<boolean>;        // false for points rejected as outliers
+
+  scale: number;                  // robust residual scale, 1.4826 * median(|r|)
+
+  rms: number;                    // square root of the average squared error over all points
+
+  iterations: number;             // IRLS iterations or RANSAC samples
+}
+
+export class TSMT$Robust
+{
+  // IRLS weight functions
+  public static HUBER: string    = 'huber';
+  public static BISQUARE: string = 'bisquare';
+
+  // tuning constants for 95% efficiency with normally distributed errors, and the outlier threshold, in units of the
+  // residual scale, used by Theil-Sen and (by default) RANSAC
+  public static HUBER_K: number    = 1.345;
+  public static BISQUARE_C: number = 4.685;
+  public static REJECT: number     = 2.5;
+
+  protected static MAD: number = 1.4826;
+  protected static TOL: number = 1.0e-6;   // convergence of IRLS, largest change in the fit relative to the scale
+
+  protected static __deviates: TSMT$Deviates = new TSMT$Deviates();
+
+  constructor()
+  {
+    // empty
+  }
+
+ /**
+  * Fit a polynomial by iteratively reweighted least squares
+  *
+  * @param {Array<number>} x Array of x-coordinates (n data points)
+  *
+  * @param {Array<number>} y Array of y-coordinates (n data points)
+  *
+  * @param {number} m Order of polynomial (n > m + 1)
+  *
+  * @param {string} method Weight function, TSMT$Robust.HUBER or BISQUARE
+  * @default TSMT$Robust.HUBER
+  *
+  * @param {number} tuning Tuning constant, in units of the residual scale; TSMT$Robust.HUBER_K or BISQUARE_C if omitted
+  *
+  * @param {number} maxIter Maximum number of reweighting iterations
+  * @default 50
+  *
+  * @returns {IRobustFit} Fit, with the final weights; inliers are points within TSMT$Robust.REJECT times the residual
+  * scale of a Huber fit, or those with positive bisquare weight (within the tuning constant).  The bisquare fit starts
+  * from the Huber fit, since its weights may reject points entirely.  Coefficients are empty for invalid inputs.
+  */
+  public static irls(x: Array<number>,
+                     y: Array<number>,
+                     m: number,
+                     method: string = TSMT$Robust.HUBER,
+                     tuning?: number,
+                     maxIter: number = 50): IRobustFit
+  {
+    m       = isNaN(m) || m < 1 ? 1 : Math.round(m);
+    method  = method == TSMT$Robust.BISQUARE ? method : TSMT$Robust.HUBER;
+    maxIter = isNaN(maxIter) || maxIter < 1 ? 50 : Math.round(maxIter);
+
+    const c: number = isFinite(tuning) && tuning > 0
+      ? tuning
+      : (method == TSMT$Robust.HUBER ? TSMT$Robust.HUBER_K : TSMT$Robust.BISQUARE_C);
+
+    if (!TSMT$Robust.__valid(x, y, m)) {
+      return TSMT$Robust.__empty(x);
+    }
+
+    const n: number         = x.length;
+    const pllsq: TSMT$Pllsq = new TSMT$Pllsq();
+
+    pllsq.solver = TSMT$Pllsq.QR;
+
+    let weights: Array<number> = method == TSMT$Robust.BISQUARE
+      ? TSMT$Robust.irls(x, y, m, TSMT$Robust.HUBER).weights
+      : undefined;
+
+    if (pllsq.fit(x, y, m, weights).coef.length == 0) {
+      return TSMT$Robust.__empty(x);
+    }
+
+    let polynomial: TSMT$Polynomial = pllsq.polynomial;
+    let scale: number               = 0.0;
+    let iter: number, i: number, change: number, u: number;
+    let r: Array<number>, next: Array<number>, previous: Array<number>;
+
+    for (iter = 1; iter <= maxIter; ++iter)
+    {
+      r     = x.map( (v: number, j: number): number => {return y[j] - polynomial.eval(v)} );
+      scale = TSMT$Robust.__scale(r);
+
+      if (scale == 0) {
+        break;
+      }
+
+      next = new Array<number>();
+      for (i = 0; i < n; ++i)
+      {
+        u = Math.abs(r[i]) / (c*scale);
+
+        next[i] = method == TSMT$Robust.HUBER
+          ? (u <= 1.0 ? 1.0 : 1.0/u)
+          : (u < 1.0 ? (1.0 - u*u)*(1.0 - u*u) : 0.0);
+      }
+
+      // too many points rejected to fit the model; keep the previous fit
+      if (pllsq.fit(x, y, m, next).coef.length == 0) {
+        break;
+      }
+
+      weights    = next;
+      previous   = x.map( (v: number): number => {return polynomial.eval(v)} );
+      polynomial = pllsq.polynomial;
+
+      change = x.reduce( (s: number, v: number, j: number): number => {
+        return Math.max(s, Math.abs(polynomial.eval(v) - previous[j]));
+      }, 0.0);
+
+      if (change <= TSMT$Robust.TOL*scale) {
+        break;
+      }
+    }
+
+    r     = x.map( (v: number, j: number): number => {return y[j] - polynomial.eval(v)} );
+    scale = TSMT$Robust.__scale(r);
+
+    const inliers: Array<boolean> = TSMT$Robust.__inliers(r, (method == TSMT$Robust.HUBER ? TSMT$Robust.REJECT : c)*scale, y);
+
+    return TSMT$Robust.__result(x, y, polynomial, weights || TSMT$Robust.__mask(inliers, true), inliers, Math.min(iter, maxIter));
+  }
+
+ /**
+  * Fit a line by the Theil-Sen estimator; the slope is the median of the slopes between all pairs of points with
+  * distinct x-coordinates and the intercept is the median of y - slope*x
+  *
+  * @param {Array<number>} x Array of x-coordinates (n data points)
+  *
+  * @param {Array<number>} y Array of y-coordinates (n data points)
+  *
+  * @returns {IRobustFit} Fit, c0 + c1*x; inliers are points within TSMT$Robust.REJECT times the residual scale of the
+  * line, and the weights are the inlier mask.  Coefficients are empty if fewer than two x-coordinates are distinct.
+  */
+  public static theilSen(x: Array<number>, y: Array<number>): IRobustFit
+  {
+    if (!x || !y || x.length != y.length) {
+      return TSMT$Robust.__empty(x);
+    }
+
+    const n: number             = x.length;
+    const slopes: Array<number> = new Array<number>();
+    let i: number, j: number;
+
+    for (i = 0; i < n-1; ++i)
+    {
+      for (j = i+1; j < n; ++j)
+      {
+        if (x[j] != x[i]) {
+          slopes.push( (y[j] - y[i]) / (x[j] - x[i]) );
+        }
+      }
+    }
+
+    if (slopes.length == 0) {
+      return TSMT$Robust.__empty(x);
+    }
+
+    const slope: number     = TSMT$Robust.__median(slopes);
+    const intercept: number = TSMT$Robust.__median( x.map( (v: number, k: number): number => {return y[k] - slope*v} ) );
+
+    const polynomial: TSMT$Polynomial = new TSMT$Polynomial([intercept, slope]);
+    const r: Array<number>            = x.map( (v: number, k: number): number => {return y[k] - polynomial.eval(v)} );
+    const scale: number               = TSMT$Robust.__scale(r);
+    const inliers: Array<boolean>     = TSMT$Robust.__inliers(r, TSMT$Robust.REJECT*scale, y);
+
+    return TSMT$Robust.__result(x, y, polynomial, TSMT$Robust.__mask(inliers), inliers, 1);
+  }
+
+ /**
+  * Fit a polynomial by RANSAC (random sample consensus).  Each sample interpolates m+1 randomly selected points; the
+  * sample with the most points within the threshold of its polynomial (the consensus set) is refit by least squares to
+  * those points.
+  *
+  * @param {Array<number>} x Array of x-coordinates (n data points)
+  *
+  * @param {Array<number>} y Array of y-coordinates (n data points)
+  *
+  * @param {number} m Order of polynomial (n > m + 1)
+  *
+  * @param {number} threshold Maximum absolute residual of an inlier; TSMT$Robust.REJECT times the residual scale of the
+  * bisquare IRLS fit if omitted
+  *
+  * @param {number} samples Number of random samples
+  * @default 200
+  *
+  * @param {number} seed Seed for the random sample sequence, so that a fit can be reproduced
+  * @default 1001
+  *
+  * @returns {IRobustFit} Fit to the largest consensus set, which is the inlier mask (and the weights).  Ties are broken
+  * by the smaller sum of squared inlier residuals.  Coefficients are empty for invalid inputs.
+  */
+  public static ransac(x: Array<number>,
+                       y: Array<number>,
+                       m: number,
+                       threshold?: number,
+                       samples: number = 200,
+                       seed: number = 1001): IRobustFit
+  {
+    m       = isNaN(m) || m < 1 ? 1 : Math.round(m);
+    samples = isNaN(samples) || samples < 1 ? 200 : Math.round(samples);
+
+    if (!TSMT$Robust.__valid(x, y, m)) {
+      return TSMT$Robust.__empty(x);
+    }
+
+    if (!(isFinite(threshold) && threshold > 0)) {
+      threshold = TSMT$Robust.REJECT*TSMT$Robust.irls(x, y, m, TSMT$Robust.BISQUARE).scale;
+    }
+
+    const n: number            = x.length;
+    const index: Array<number> = x.map( (v: number, i: number): number => {return i} );
+    const range: Array<number> = [Math.min.apply(null, x), Math.max.apply(null, x)];
+    const offset: number       = 0.5*(range[0] + range[1]);
+    const scale: number        = range[1] > range[0] ? 0.5*(range[1] - range[0]) : 1.0;
+
+    let best: Array<boolean> = null;
+    let bestCount: number    = 0;
+    let bestSse: number      = Infinity;
+    let sample: number, i: number, j: number, tmp: number, r: number, count: number, sse: number;
+    let polynomial: TSMT$Polynomial;
+    let consensus: Array<boolean>;
+
+    TSMT$Robust.__deviates.uniform(seed, true);
+
+    for (sample = 0; sample < samples; ++sample)
+    {
+      // partial Fisher-Yates shuffle; the first m+1 indices are the sample
+      for (i = 0; i <= m; ++i)
+      {
+        j        = i + Math.min( Math.floor( TSMT$Robust.__deviates.uniform(seed, false)*(n - i) ), n - i - 1 );
+        tmp      = index[i];
+        index[i] = index[j];
+        index[j] = tmp;
+      }
+
+      polynomial = TSMT$Robust.__interpolate(index.slice(0, m+1), x, y, offset, scale);
+      if (!polynomial) {
+        continue;
+      }
+
+      consensus = new Array<boolean>();
+      count     = 0;
+      sse       = 0.0;
+
+      for (i = 0; i < n; ++i)
+      {
+        r            = y[i] - polynomial.eval(x[i]);
+        consensus[i] = Math.abs(r) <= threshold;
+
+        if (consensus[i])
+        {
+          count++;
+          sse += r*r;
+        }
+      }
+
+      if (count > bestCount || (count == bestCount && sse < bestSse))
+      {
+        best      = consensus;
+        bestCount = count;
+        bestSse   = sse;
+      }
+    }
+
+    if (!best) {
+      return TSMT$Robust.__empty(x);
+    }
+
+    // refit to the consensus set (the interpolating sample polynomial is used if the set is too small to refit)
+    const pllsq: TSMT$Pllsq      = new TSMT$Pllsq();
+    const weights: Array<number> = TSMT$Robust.__mask(best);
+
+    pllsq.solver = TSMT$Pllsq.QR;
+
+    if (pllsq.fit(x, y, m, weights).coef.length > 0) {
+      polynomial = pllsq.polynomial;
+    }
+    else
+    {
+      const members: Array<number> = index.filter( (k: number): boolean => {return best[k]} ).slice(0, m+1);
+      polynomial                   = TSMT$Robust.__interpolate(members, x, y, offset, scale);
+    }
+
+    return TSMT$Robust.__result(x, y, polynomial, weights, best, samples);
+  }
+
+  // are inputs sufficient for a polynomial fit of order m?
+  protected static __valid(x: Array<number>, y: Array<number>, m: number): boolean
+  {
+    return !!x && !!y && x.length == y.length && x.length > m + 1;
+  }
+
+  // result for invalid inputs
+  protected static __empty(x: Array<number>): IRobustFit
+  {
+    return {
+      coef: [],
+      polynomial: new TSMT$Polynomial(),
+      weights: x ? x.map( (): number => {return 0} ) : [],
+      inliers: x ? x.map( (): boolean => {return false} ) : [],
+      scale: 0,
+      rms: 0,
+      iterations: 0
+    };
+  }
+
+  // assemble a result; rms error and scale are computed over all points
+  protected static __result(x: Array<number>,
+                            y: Array<number>,
+                            polynomial: TSMT$Polynomial,
+                            weights: Array<number>,
+                            inliers: Array<boolean>,
+                            iterations: number): IRobustFit
+  {
+    const r: Array<number> = x.map( (v: number, i: number): number => {return y[i] - polynomial.eval(v)} );
+
+    return {
+      coef: polynomial.coef,
+      polynomial: polynomial,
+      weights: weights,
+      inliers: inliers,
+      scale: TSMT$Robust.__scale(r),
+      rms: Math.sqrt( r.reduce( (s: number, v: number): number => {return s + v*v}, 0.0 ) / r.length ),
+      iterations: iterations
+    };
+  }
+
+  // polynomial of order k-1 through k points (in the scaled variable), or null if x-coordinates repeat
+  protected static __interpolate(points: Array<number>,
+                                 x: Array<number>,
+                                 y: Array<number>,
+                                 offset: number,
+                                 scale: number): TSMT$Polynomial
+  {
+    const matrix: TSMT$Matrix = new TSMT$Matrix();
+
+    matrix.fromArray( points.map( (p: number): Array<number> => {
+      const t: number          = (x[p] - offset) / scale;
+      const row: Array<number> = [1.0];
+
+      while (row.length < points.length) {
+        row.push(row[row.length-1]*t);
+      }
+
+      return row;
+    }) );
+
+    const c: Array<number> = matrix.solve( points.map( (p: number): number => {return y[p]} ) );
+
+    return c.length > 0 && c.every( (v: number): boolean => {return isFinite(v)} )
+      ? new TSMT$Polynomial(c, offset, scale)
+      : null;
+  }
+
+  // points with residuals within a limit; the limit is never below roundoff in y, so an exact fit has no outliers
+  protected static __inliers(r: Array<number>, limit: number, y: Array<number>): Array<boolean>
+  {
+    const floor: number = TSMT$Robust.TOL*y.reduce( (s: number, v: number): number => {return Math.max(s, Math.abs(v))}, 0.0 );
+
+    return r.map( (v: number): boolean => {return Math.abs(v) <= Math.max(limit, floor)} );
+  }
+
+  // robust scale of a set of residuals, 1.4826 * median(|r|)
+  protected static __scale(r: Array<number>): number
+  {
+    return TSMT$Robust.MAD*TSMT$Robust.__median( r.map( (v: number): number => {return Math.abs(v)} ) );
+  }
+
+  // median of a (non-empty) set of values
+  protected static __median(values: Array<number>): number
+  {
+    const v: Array<number> = values.slice().sort( (a: number, b: number): number => {return a - b} );
+    const k: number        = v.length >> 1;
+
+    return v.length % 2 == 1 ? v[k] : 0.5*(v[k-1] + v[k]);
+  }
+
+  // weights from an inlier mask; every point is weighted equally if all is true
+  protected static __mask(inliers: Array<boolean>, all: boolean = false): Array<number>
+  {
+    return inliers.map( (v: boolean): number => {return all || v ? 1.0 : 0.0} );
+  }
+}
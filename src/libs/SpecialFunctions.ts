@@ -0,0 +1,333 @@
+/**
+ * Copyright 2016 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Typescript Math Toolkit.  Special functions used in statistical tests of fits; log-gamma, the regularized incomplete
+ * beta function, and the upper regularized incomplete gamma function (the chi-square goodness-of-fit probability), along
+ * with tail probabilities of the Student t and F distributions derived from them.  All derived from NRC (Numerical
+ * Recipes in C).
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+export class TSMT$SpecialFunctions
+{
+  protected static MAXIT: number = 200;
+  protected static EPS: number   = 3.0e-7;
+  protected static FPMIN: number = 1.0e-30;
+
+  protected static COF: Array<number> = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155,
+    0.1208650973866179e-2, -0.5395239384953e-5];
+
+  constructor()
+  {
+    // empty
+  }
+
+ /**
+  * Natural log of the gamma function
+  *
+  * @param {number} x Argument (x > 0)
+  *
+  * @returns {number} ln(gamma(x)) or NaN if x is not positive
+  *
+  * Reference:  NRC (gammln)
+  */
+  public static gammln(x: number): number
+  {
+    if (isNaN(x) || x <= 0) {
+      return NaN;
+    }
+
+    let y: number   = x;
+    let tmp: number = x + 5.5;
+    let ser: number = 1.000000000190015;
+    let j: number;
+
+    tmp -= (x + 0.5)*Math.log(tmp);
+
+    for (j = 0; j < 6; ++j) {
+      ser += TSMT$SpecialFunctions.COF[j] / ++y;
+    }
+
+    return -tmp + Math.log(2.5066282746310005*ser/x);
+  }
+
+ /**
+  * Regularized incomplete beta function, I(x; a, b)
+  *
+  * @param {number} a First shape parameter (a > 0)
+  *
+  * @param {number} b Second shape parameter (b > 0)
+  *
+  * @param {number} x Argument in [0, 1]
+  *
+  * @returns {number} I(x; a, b) or NaN for invalid inputs
+  *
+  * Reference:  NRC (betai)
+  */
+  public static betai(a: number, b: number, x: number): number
+  {
+    if (isNaN(a) || isNaN(b) || isNaN(x) || a <= 0 || b <= 0 || x < 0 || x > 1) {
+      return NaN;
+    }
+
+    if (x == 0 || x == 1) {
+      return x;
+    }
+
+    const bt: number = Math.exp( TSMT$SpecialFunctions.gammln(a + b) - TSMT$SpecialFunctions.gammln(a)
+      - TSMT$SpecialFunctions.gammln(b) + a*Math.log(x) + b*Math.log(1.0 - x) );
+
+    // the continued fraction converges rapidly for x < (a+1)/(a+b+2); use the symmetry relation otherwise
+    return x < (a + 1.0)/(a + b + 2.0)
+      ? bt*TSMT$SpecialFunctions.__betacf(a, b, x)/a
+      : 1.0 - bt*TSMT$SpecialFunctions.__betacf(b, a, 1.0 - x)/b;
+  }
+
+ /**
+  * Upper regularized incomplete gamma function, Q(a, x) = 1 - P(a, x)
+  *
+  * @param {number} a Shape parameter (a > 0)
+  *
+  * @param {number} x Argument (x >= 0)
+  *
+  * @returns {number} Q(a, x) or NaN for invalid inputs.  Q(0.5*dof, 0.5*chi2) is the probability that a chi-square
+  * with dof degrees of freedom is at least chi2 by chance, i.e. the goodness-of-fit probability of a least-squares fit.
+  *
+  * Reference:  NRC (gammq)
+  */
+  public static gammq(a: number, x: number): number
+  {
+    if (isNaN(a) || isNaN(x) || a <= 0 || x < 0) {
+      return NaN;
+    }
+
+    if (x == 0) {
+      return 1.0;
+    }
+
+    if (!isFinite(x)) {
+      return 0.0;
+    }
+
+    // the series converges rapidly for x < a+1 and the continued fraction otherwise
+    return x < a + 1.0 ? 1.0 - TSMT$SpecialFunctions.__gser(a, x) : TSMT$SpecialFunctions.__gcf(a, x);
+  }
+
+ /**
+  * Two-sided tail probability of the Student t distribution, i.e. the p-value of a t-statistic
+  *
+  * @param {number} t t-statistic
+  *
+  * @param {number} dof Degrees of freedom (dof > 0)
+  *
+  * @returns {number} Probability that |T| >= |t| or NaN for invalid inputs
+  */
+  public static studentP(t: number, dof: number): number
+  {
+    if (isNaN(t) || isNaN(dof) || dof <= 0) {
+      return NaN;
+    }
+
+    return isFinite(t) ? TSMT$SpecialFunctions.betai(0.5*dof, 0.5, dof/(dof + t*t)) : 0.0;
+  }
+
+ /**
+  * Upper tail probability of the F distribution, i.e. the p-value of an F-statistic
+  *
+  * @param {number} f F-statistic (f >= 0)
+  *
+  * @param {number} d1 Numerator degrees of freedom (d1 > 0)
+  *
+  * @param {number} d2 Denominator degrees of freedom (d2 > 0)
+  *
+  * @returns {number} Probability that F >= f or NaN for invalid inputs
+  */
+  public static fisherP(f: number, d1: number, d2: number): number
+  {
+    if (isNaN(f) || isNaN(d1) || isNaN(d2) || f < 0 || d1 <= 0 || d2 <= 0) {
+      return NaN;
+    }
+
+    return isFinite(f) ? TSMT$SpecialFunctions.betai(0.5*d2, 0.5*d1, d2/(d2 + d1*f)) : 0.0;
+  }
+
+ /**
+  * Two-sided critical value of the Student t distribution, i.e. the multiplier of the standard error for a confidence
+  * interval at the specified level
+  *
+  * @param {number} level Confidence level in (0, 1), i.e. 0.95
+  *
+  * @param {number} dof Degrees of freedom (dof > 0)
+  *
+  * @returns {number} t such that the probability |T| >= t is 1 - level, or NaN for invalid inputs
+  */
+  public static studentQuantile(level: number, dof: number): number
+  {
+    if (isNaN(level) || isNaN(dof) || level <= 0 || level >= 1 || dof <= 0) {
+      return NaN;
+    }
+
+    const alpha: number = 1.0 - level;
+    let lo: number      = 0.0;
+    let hi: number      = 1.0;
+    let mid: number;
+    let i: number;
+
+    // bracket, then bisect; the tail probability decreases monotonically in t
+    while (TSMT$SpecialFunctions.studentP(hi, dof) > alpha && hi < 1.0e10) {
+      hi *= 2.0;
+    }
+
+    for (i = 0; i < 100; ++i)
+    {
+      mid = 0.5*(lo + hi);
+
+      if (TSMT$SpecialFunctions.studentP(mid, dof) > alpha) {
+        lo = mid;
+      }
+      else {
+        hi = mid;
+      }
+    }
+
+    return 0.5*(lo + hi);
+  }
+
+  // series for the lower regularized incomplete gamma function, P(a, x)
+  protected static __gser(a: number, x: number): number
+  {
+    let ap: number  = a;
+    let del: number = 1.0/a;
+    let sum: number = del;
+    let n: number;
+
+    for (n = 1; n <= TSMT$SpecialFunctions.MAXIT; ++n)
+    {
+      ++ap;
+      del *= x/ap;
+      sum += del;
+
+      if (Math.abs(del) < Math.abs(sum)*TSMT$SpecialFunctions.EPS) {
+        break;
+      }
+    }
+
+    return sum*Math.exp( -x + a*Math.log(x) - TSMT$SpecialFunctions.gammln(a) );
+  }
+
+  // continued fraction for the upper regularized incomplete gamma function, Q(a, x) (modified Lentz's method)
+  protected static __gcf(a: number, x: number): number
+  {
+    let b: number = x + 1.0 - a;
+    let c: number = 1.0/TSMT$SpecialFunctions.FPMIN;
+    let d: number = 1.0/b;
+    let h: number = d;
+    let i: number, an: number, del: number;
+
+    for (i = 1; i <= TSMT$SpecialFunctions.MAXIT; ++i)
+    {
+      an = -i*(i - a);
+      b += 2.0;
+      d  = an*d + b;
+
+      if (Math.abs(d) < TSMT$SpecialFunctions.FPMIN) {
+        d = TSMT$SpecialFunctions.FPMIN;
+      }
+
+      c = b + an/c;
+
+      if (Math.abs(c) < TSMT$SpecialFunctions.FPMIN) {
+        c = TSMT$SpecialFunctions.FPMIN;
+      }
+
+      d   = 1.0/d;
+      del = d*c;
+      h  *= del;
+
+      if (Math.abs(del - 1.0) < TSMT$SpecialFunctions.EPS) {
+        break;
+      }
+    }
+
+    return Math.exp( -x + a*Math.log(x) - TSMT$SpecialFunctions.gammln(a) )*h;
+  }
+
+  // continued fraction for the incomplete beta function (modified Lentz's method)
+  protected static __betacf(a: number, b: number, x: number): number
+  {
+    const qab: number = a + b;
+    const qap: number = a + 1.0;
+    const qam: number = a - 1.0;
+
+    let c: number = 1.0;
+    let d: number = 1.0 - qab*x/qap;
+    let m: number, m2: number, aa: number, del: number, h: number;
+
+    if (Math.abs(d) < TSMT$SpecialFunctions.FPMIN) {
+      d = TSMT$SpecialFunctions.FPMIN;
+    }
+
+    d = 1.0/d;
+    h = d;
+
+    for (m = 1; m <= TSMT$SpecialFunctions.MAXIT; ++m)
+    {
+      m2 = 2*m;
+
+      // even step of the recurrence
+      aa = m*(b - m)*x/((qam + m2)*(a + m2));
+      d  = 1.0 + aa*d;
+      c  = 1.0 + aa/c;
+
+      if (Math.abs(d) < TSMT$SpecialFunctions.FPMIN) {
+        d = TSMT$SpecialFunctions.FPMIN;
+      }
+
+      if (Math.abs(c) < TSMT$SpecialFunctions.FPMIN) {
+        c = TSMT$SpecialFunctions.FPMIN;
+      }
+
+      d  = 1.0/d;
+      h *= d*c;
+
+      // odd step
+      aa = -(a + m)*(qab + m)*x/((a + m2)*(qap + m2));
+      d  = 1.0 + aa*d;
+      c  = 1.0 + aa/c;
+
+      if (Math.abs(d) < TSMT$SpecialFunctions.FPMIN) {
+        d = TSMT$SpecialFunctions.FPMIN;
+      }
+
+      if (Math.abs(c) < TSMT$SpecialFunctions.FPMIN) {
+        c = TSMT$SpecialFunctions.FPMIN;
+      }
+
+      d   = 1.0/d;
+      del = d*c;
+      h  *= del;
+
+      if (Math.abs(del - 1.0) < TSMT$SpecialFunctions.EPS) {
+        break;
+      }
+    }
+
+    return h;
+  }
+}
@@ -0,0 +1,466 @@
+/**
+ * Copyright 2016 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Typescript Math Toolkit.  Natural cubic splines; an interpolating spline through a data set, or a penalized
+ * smoothing spline that minimizes sum w(i)*(y(i) - f(x(i)))^2 + lambda * integral f''(x)^2 dx.  The smoothing parameter
+ * may be supplied or chosen by generalized cross-validation (GCV).  The spline is computed by the Reinsch algorithm;
+ * there is a knot at each distinct x-coordinate and the banded system for the second derivatives is solved with
+ * TSMT$Matrix, so the method is intended for data sets of modest size.  Natural splines are linear beyond the first
+ * and last knots.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+import { TSMT$Matrix } from "./Matrix";
+
+export interface ISplineResult
+{
+  x: Array<number>;     // knots, the distinct x-coordinates in increasing order
+
+  y: Array<number>;     // spline values at the knots
+
+  d2: Array<number>;    // second derivatives at the knots (zero at the first and last knot)
+
+  lambda: number;       // smoothing parameter (zero for the interpolating spline)
+
+  gcv: number;          // generalized cross-validation score, n * chi2 / (n - edf)^2 (NaN for the interpolating spline)
+
+  edf: number;          // effective degrees of freedom, the trace of the smoother matrix (number of knots for the
+                        // interpolating spline, two as lambda becomes large)
+
+  rms: number;          // square root of the average squared error at the data points (unweighted)
+}
+
+export class TSMT$Spline
+{
+  // GCV search, in decades either side of a smoothing parameter matched to the spacing of the knots
+  protected static DECADES: number = 8;
+  protected static STEPS: number   = 64;
+
+  protected _matrix: TSMT$Matrix;
+
+  protected _x: Array<number>;   // knots
+  protected _g: Array<number>;   // values at the knots
+  protected _d2: Array<number>;  // second derivatives at the knots
+
+  constructor()
+  {
+    this._matrix = new TSMT$Matrix();
+
+    this._x  = new Array<number>();
+    this._g  = new Array<number>();
+    this._d2 = new Array<number>();
+  }
+
+ /**
+  * Fit a natural cubic spline that interpolates the data
+  *
+  * @param {Array<number>} x Array of x-coordinates (n data points, n >= 2)
+  *
+  * @param {Array<number>} y Array of y-coordinates (n data points)
+  *
+  * @returns {ISplineResult} Interpolating spline; repeated x-coordinates are replaced by a single knot at the mean of
+  * their y-coordinates.  Arrays are empty if there are fewer than two distinct x-coordinates.
+  */
+  public interpolate(x: Array<number>, y: Array<number>): ISplineResult
+  {
+    const result: ISplineResult = this.__fit(x, y, undefined, 0.0);
+
+    if (result.x.length > 0) {
+      result.gcv = NaN;
+    }
+
+    return result;
+  }
+
+ /**
+  * Fit a natural cubic smoothing spline
+  *
+  * @param {Array<number>} x Array of x-coordinates (n data points, n >= 2)
+  *
+  * @param {Array<number>} y Array of y-coordinates (n data points)
+  *
+  * @param {number} lambda Smoothing parameter (non-negative); chosen to minimize the GCV score if omitted or invalid
+  *
+  * @param {Array<number>} w Optional per-point weights (n data points, positive); all points are weighted equally if
+  * omitted
+  *
+  * @returns {ISplineResult} Smoothing spline; points with repeated x-coordinates are combined into a single knot (at
+  * their weighted mean y-coordinate, with their total weight).  Arrays are empty if there are fewer than two distinct
+  * x-coordinates or the weights are invalid.
+  */
+  public smooth(x: Array<number>, y: Array<number>, lambda?: number, w?: Array<number>): ISplineResult
+  {
+    if (lambda !== undefined && lambda !== null && isFinite(lambda) && lambda >= 0) {
+      return this.__fit(x, y, w, lambda);
+    }
+
+    // coarse search over a logarithmic grid, then golden-section refinement about the best grid point
+    const base: number = this.__lambdaScale(x);
+    if (base == 0) {
+      return this.__fit(x, y, w, 0.0);
+    }
+
+    const d: number    = TSMT$Spline.DECADES;
+    const step: number = 2*d/TSMT$Spline.STEPS;
+
+    let best: number    = -d;
+    let bestGcv: number = Infinity;
+    let p: number, gcv: number;
+
+    for (p = -d; p <= d + 0.5*step; p += step)
+    {
+      gcv = this.__fit(x, y, w, base*Math.pow(10, p)).gcv;
+
+      if (gcv < bestGcv)
+      {
+        bestGcv = gcv;
+        best    = p;
+      }
+    }
+
+    if (!isFinite(bestGcv)) {
+      return this.__fit(x, y, w, 0.0);
+    }
+
+    const ratio: number = 0.5*(Math.sqrt(5.0) - 1.0);
+    let a: number       = best - step;
+    let b: number       = best + step;
+    let c1: number      = b - ratio*(b - a);
+    let c2: number      = a + ratio*(b - a);
+    let g1: number      = this.__fit(x, y, w, base*Math.pow(10, c1)).gcv;
+    let g2: number      = this.__fit(x, y, w, base*Math.pow(10, c2)).gcv;
+    let i: number;
+
+    for (i = 0; i < 30; ++i)
+    {
+      if (g1 < g2)
+      {
+        b  = c2;
+        c2 = c1;
+        g2 = g1;
+        c1 = b - ratio*(b - a);
+        g1 = this.__fit(x, y, w, base*Math.pow(10, c1)).gcv;
+      }
+      else
+      {
+        a  = c1;
+        c1 = c2;
+        g1 = g2;
+        c2 = a + ratio*(b - a);
+        g2 = this.__fit(x, y, w, base*Math.pow(10, c2)).gcv;
+      }
+    }
+
+    p = Math.min(g1, g2) < bestGcv ? 0.5*(a + b) : best;
+
+    return this.__fit(x, y, w, base*Math.pow(10, p));
+  }
+
+  /**
+   * Evaluate the spline at an input value
+   *
+   * @param {number} x x-coordinate
+   *
+   * @returns {number} Spline value at x (linear extrapolation beyond the first and last knots), or zero if no spline
+   * has been fit
+   */
+  public eval(x: number): number
+  {
+    return this.derivative(x, 0);
+  }
+
+  /**
+   * Evaluate a derivative of the spline at an input value
+   *
+   * @param {number} x x-coordinate
+   *
+   * @param {number} order Order of the derivative, 0 (value) through 3; higher derivatives are zero
+   * @default 1
+   *
+   * @returns {number} Derivative of the specified order at x (the third derivative is discontinuous at the knots; the
+   * value of the interval to the right is returned), zero if no spline has been fit, or NaN if the order is invalid
+   */
+  public derivative(x: number, order: number = 1): number
+  {
+    if (isNaN(order) || order < 0 || Math.floor(order) != order) {
+      return NaN;
+    }
+
+    const n: number = this._x.length;
+    if (n == 0 || order > 3) {
+      return 0.0;
+    }
+
+    // linear beyond the ends
+    if (x < this._x[0] || x > this._x[n-1])
+    {
+      const end: number   = x < this._x[0] ? 0 : n-1;
+      const slope: number = this.derivative(this._x[end], 1);
+
+      return order == 0 ? this._g[end] + slope*(x - this._x[end]) : (order == 1 ? slope : 0.0);
+    }
+
+    // interval containing x, by bisection
+    let lo: number = 0;
+    let hi: number = n-1;
+    let k: number;
+
+    while (hi - lo > 1)
+    {
+      k = (hi + lo) >> 1;
+
+      if (this._x[k] > x) {
+        hi = k;
+      }
+      else {
+        lo = k;
+      }
+    }
+
+    const h: number = this._x[hi] - this._x[lo];
+    const a: number = (this._x[hi] - x) / h;
+    const b: number = (x - this._x[lo]) / h;
+
+    switch (order)
+    {
+      case 0:
+        return a*this._g[lo] + b*this._g[hi] + ((a*a*a - a)*this._d2[lo] + (b*b*b - b)*this._d2[hi])*h*h/6.0;
+
+      case 1:
+        return (this._g[hi] - this._g[lo])/h - (3.0*a*a - 1.0)*h*this._d2[lo]/6.0 + (3.0*b*b - 1.0)*h*this._d2[hi]/6.0;
+
+      case 2:
+        return a*this._d2[lo] + b*this._d2[hi];
+
+      default:
+        return (this._d2[hi] - this._d2[lo])/h;
+    }
+  }
+
+  // fit with a fixed smoothing parameter (Reinsch); with Q the n x (n-2) second-difference matrix and R the (n-2) x (n-2)
+  // tridiagonal matrix of the penalty, solve (R + lambda Q^T W^-1 Q) gamma = Q^T y for the interior second derivatives,
+  // then g = y - lambda W^-1 Q gamma.  The trace of the smoother matrix is n - lambda tr( (R + lambda Q^T W^-1 Q)^-1
+  // Q^T W^-1 Q ).
+  protected __fit(x: Array<number>, y: Array<number>, w: Array<number>, lambda: number): ISplineResult
+  {
+    const empty: ISplineResult = {x: [], y: [], d2: [], lambda: lambda, gcv: Infinity, edf: 0, rms: 0};
+
+    this._x  = new Array<number>();
+    this._g  = new Array<number>();
+    this._d2 = new Array<number>();
+
+    const knots: {x: Array<number>, y: Array<number>, w: Array<number>} = this.__knots(x, y, w);
+
+    if (!knots || knots.x.length < 2) {
+      return empty;
+    }
+
+    const xk: Array<number> = knots.x;
+    const yk: Array<number> = knots.y;
+    const wk: Array<number> = knots.w;
+    const n: number         = xk.length;
+    const m: number         = n - 2;
+
+    const h: Array<number>  = new Array<number>();
+    const g: Array<number>  = yk.slice();
+    const d2: Array<number> = new Array<number>();
+    let i: number, j: number, k: number;
+
+    for (i = 0; i < n-1; ++i) {
+      h[i] = xk[i+1] - xk[i];
+    }
+
+    for (i = 0; i < n; ++i) {
+      d2[i] = 0.0;
+    }
+
+    let trace: number = n;
+
+    if (m > 0)
+    {
+      // nonzero entries of column j of Q are rows j, j+1, j+2
+      const q: Array< Array<number> > = new Array< Array<number> >();
+
+      for (j = 0; j < m; ++j) {
+        q[j] = [1.0/h[j], -1.0/h[j] - 1.0/h[j+1], 1.0/h[j+1]];
+      }
+
+      // Q^T W^-1 Q, pentadiagonal
+      const b: Array< Array<number> > = new Array< Array<number> >();
+      let sum: number;
+
+      for (i = 0; i < m; ++i)
+      {
+        b[i] = new Array<number>();
+
+        for (j = 0; j < m; ++j)
+        {
+          sum = 0.0;
+
+          for (k = Math.max(i, j); k <= Math.min(i, j) + 2; ++k) {
+            sum += q[i][k-i]*q[j][k-j]/wk[k];
+          }
+
+          b[i][j] = sum;
+        }
+      }
+
+      const a: Array< Array<number> > = new Array< Array<number> >();
+      const rhs: Array<number>        = new Array<number>();
+
+      for (i = 0; i < m; ++i)
+      {
+        a[i]   = new Array<number>();
+        rhs[i] = q[i][0]*yk[i] + q[i][1]*yk[i+1] + q[i][2]*yk[i+2];
+
+        for (j = 0; j < m; ++j) {
+          a[i][j] = lambda*b[i][j];
+        }
+
+        a[i][i] += (h[i] + h[i+1])/3.0;
+
+        if (i < m-1) {
+          a[i][i+1] += h[i+1]/6.0;
+        }
+
+        if (i > 0) {
+          a[i][i-1] += h[i]/6.0;
+        }
+      }
+
+      this._matrix.fromArray(a);
+
+      const gamma: Array<number> = this._matrix.solve(rhs);
+      if (gamma.length == 0) {
+        return empty;
+      }
+
+      for (j = 0; j < m; ++j) {
+        d2[j+1] = gamma[j];
+      }
+
+      // g = y - lambda W^-1 Q gamma
+      if (lambda > 0)
+      {
+        for (j = 0; j < m; ++j)
+        {
+          for (k = 0; k < 3; ++k) {
+            g[j+k] -= lambda*q[j][k]*gamma[j]/wk[j+k];
+          }
+        }
+
+        // the factorization is reused for each column of (R + lambda Q^T W^-1 Q)^-1 Q^T W^-1 Q
+        for (j = 0; j < m; ++j) {
+          trace -= lambda*this._matrix.solve(b[j])[j];
+        }
+      }
+    }
+
+    this._x  = xk;
+    this._g  = g;
+    this._d2 = d2;
+
+    // fit statistics against the original data
+    const count: number = x.length;
+    let chi2: number    = 0.0;
+    let sum2: number    = 0.0;
+    let r: number;
+
+    for (i = 0; i < count; ++i)
+    {
+      r     = this.eval(x[i]) - y[i];
+      sum2 += r*r;
+      chi2 += (w ? w[i] : 1.0)*r*r;
+    }
+
+    const dof: number = count - trace;
+
+    return {
+      x: xk.slice(),
+      y: g.slice(),
+      d2: d2.slice(),
+      lambda: lambda,
+      gcv: dof > 1.0e-8*count ? count*chi2/(dof*dof) : Infinity,
+      edf: trace,
+      rms: Math.sqrt(sum2/count)
+    };
+  }
+
+  // sorted, distinct knots; points with the same x-coordinate are combined with their total weight; null if invalid
+  protected __knots(x: Array<number>, y: Array<number>, w: Array<number>): {x: Array<number>, y: Array<number>, w: Array<number>}
+  {
+    if (!x || !y || x.length != y.length || (w && w.length != x.length)) {
+      return null;
+    }
+
+    const n: number = x.length;
+    let i: number;
+
+    for (i = 0; i < n; ++i)
+    {
+      if (!isFinite(x[i]) || !isFinite(y[i]) || (w && !(w[i] > 0 && isFinite(w[i])))) {
+        return null;
+      }
+    }
+
+    const order: Array<number> = x.map( (v: number, j: number): number => {return j} );
+    order.sort( (a: number, b: number): number => {return x[a] - x[b]} );
+
+    const xk: Array<number> = new Array<number>();
+    const yk: Array<number> = new Array<number>();
+    const wk: Array<number> = new Array<number>();
+    let j: number, wj: number, last: number;
+
+    for (i = 0; i < n; ++i)
+    {
+      j    = order[i];
+      wj   = w ? w[j] : 1.0;
+      last = xk.length - 1;
+
+      if (last >= 0 && x[j] == xk[last])
+      {
+        yk[last] = (wk[last]*yk[last] + wj*y[j]) / (wk[last] + wj);
+        wk[last] += wj;
+      }
+      else
+      {
+        xk.push(x[j]);
+        yk.push(y[j]);
+        wk.push(wj);
+      }
+    }
+
+    return {x: xk, y: yk, w: wk};
+  }
+
+  // smoothing parameter at which the penalty and the residuals are of comparable weight for the spacing of the data,
+  // the cube of the mean knot spacing; zero if there is no spacing
+  protected __lambdaScale(x: Array<number>): number
+  {
+    if (!x || x.length < 2) {
+      return 0;
+    }
+
+    const min: number = Math.min.apply(null, x);
+    const max: number = Math.max.apply(null, x);
+    const h: number   = (max - min) / (x.length - 1);
+
+    return isFinite(h) ? h*h*h : 0;
+  }
+}
@@ -22,6 +22,8 @@
  * @version 1.0
  *
  */
+import { TSMT$SpecialFunctions } from "./SpecialFunctions";
+
 export interface ILLSQResult
 {
   a: number;     // fit model is ax + b
@@ -35,59 +37,95 @@ export interface ILLSQResult
   chi2: number;  // chi-squared parameter for the fit
 
   r: number;     // square (R^2) of the correlation coefficient.
+
+  covab: number; // covariance of the slope and intercept
+
+  q?: number;    // goodness-of-fit probability that chi2 would be this large by chance (one unless sigmas are supplied)
+}
+
+/**
+ * Confidence or prediction band about a fit, evaluated at a set of x-coordinates
+ */
+export interface IFitBand
+{
+  x: Array<number>;
+
+  y: Array<number>;       // fit value at each x-coordinate
+
+  lower: Array<number>;   // lower limit of the interval at each x-coordinate
+
+  upper: Array<number>;   // upper limit of the interval at each x-coordinate
+
+  level: number;          // confidence level, i.e. 0.95
 }
 
 export class TSMT$LLSQ
 {
+  protected static MAXIT: number = 100;
+  protected static TOL: number   = 1.0e-12;
+
   constructor()
   {
     // empty
   }
 
  /**
-  * Perform a linear regression (least squares fit) without data on variance of individual sample y-coordinates
+  * Perform a linear regression (least squares fit), optionally with the measurement error (standard deviation) of each
+  * sample y-coordinate
   *
   * @param {Array<number>} x Array of x-coordinates (must have at least three data points)
   *
   * @param {Array<number>} y Array of y-coordinates (must have at least three data points)
   *
+  * @param {Array<number>} sig Optional array of measurement standard deviations of the y-coordinates (positive); each
+  * point is weighted by 1/sig^2
+  *
   * @return {ILLSQResult} There should be at least three points in the data set.  Invalid inputs result in a
-  * fit to a singleton point at the origin.
+  * fit to a singleton point at the origin.  Without sigmas, the parameter uncertainties are estimated from the scatter
+  * about the fit and the goodness-of-fit probability, q, is one.  With sigmas, chi2 is chi-square and q is the
+  * probability of a chi-square at least this large with n-2 degrees of freedom; a very small q means the model or the
+  * sigmas are wrong.
   *
-  * Reference: NRC or Wikipedia (https://en.wikipedia.org/wiki/Simple_linear_regression)
+  * Reference: NRC (fit) or Wikipedia (https://en.wikipedia.org/wiki/Simple_linear_regression)
   */
-  public static fit(_x: Array<number>, _y: Array<number>): ILLSQResult
+  public static fit(_x: Array<number>, _y: Array<number>, sig?: Array<number>): ILLSQResult
   {
     const n: number = _x.length;
 
-    if (n < 3 || _y.length != n) {
-      return {a: 0, b: 0, siga: 0, sigb: 0, chi2: 0, r: 0};
+    if (n < 3 || _y.length != n || !TSMT$LLSQ.__validSigma(sig, n, false)) {
+      return {a: 0, b: 0, siga: 0, sigb: 0, chi2: 0, r: 0, covab: 0, q: 0};
     }
 
+    const weighted: boolean = sig !== undefined && sig != null;
+
     let a: number   = 0.0;
     let b: number   = 0.0;
     let s: number   = 0.0;
+    let ss: number  = 0.0;
     let sx: number  = 0.0;
     let sy: number  = 0.0;
     let st2: number = 0.0;
 
-    let i: number, t: number, w: number;
+    let i: number, t: number, w: number, sigi: number;
 
     for (i = 0; i < n; ++i)
     {
-      sx += _x[i];
-      sy += _y[i];
+      w = weighted ? 1.0/(sig[i]*sig[i]) : 1.0;
+
+      ss += w;
+      sx += w*_x[i];
+      sy += w*_y[i];
     }
 
-    const ss: number    = n;
     const sxoss: number = sx / ss;
     const ybar: number  = sy / ss;
 
     for (i = 0; i < n; ++i)
     {
-      t    = _x[i] - sxoss;
+      sigi = weighted ? sig[i] : 1.0;
+      t    = (_x[i] - sxoss) / sigi;
       st2 += t * t;
-      b   += t * _y[i];
+      b   += t * _y[i] / sigi;
     }
 
     b /= st2;
@@ -101,22 +139,213 @@ export class TSMT$LLSQ
     let chi2: number = 0.0;
     for (i = 0; i < n; ++i)
     {
-      w     = _y[i] - ybar;
-      t     = _y[i] - a - b * _x[i];
+      sigi  = weighted ? sig[i] : 1.0;
+      w     = (_y[i] - ybar) / sigi;
+      t     = (_y[i] - a - b * _x[i]) / sigi;
       chi2 += t * t;
       s    += w * w;
     }
 
-    if (n > 2) {
+    // without sigmas, the scatter about the fit estimates a common sigma
+    if (!weighted && n > 2) {
       sigdat = Math.sqrt(chi2 / (n - 2));
     }
 
     siga *= sigdat;
     sigb *= sigdat;
 
-    const cov: number = -sx / st2;        // unused, but reserved for future use
+    const cov: number = -sxoss * sigdat * sigdat / st2;
     const r: number   = 1.0 - chi2 / s;
+    const q: number   = weighted ? TSMT$SpecialFunctions.gammq(0.5*(n - 2), 0.5*chi2) : 1.0;
+
+    return {a: b, b: a, siga: siga, sigb: sigb, chi2: chi2, r: r, covab: cov, q: q};
+  }
+
+ /**
+  * Fit a straight line to data with measurement errors in both x and y (errors-in-variables regression)
+  *
+  * @param {Array<number>} x Array of x-coordinates (must have at least three data points)
+  *
+  * @param {Array<number>} y Array of y-coordinates (must have at least three data points)
+  *
+  * @param {Array<number>} sigx Array of measurement standard deviations of the x-coordinates (non-negative)
+  *
+  * @param {Array<number>} sigy Array of measurement standard deviations of the y-coordinates (positive)
+  *
+  * @return {ILLSQResult} Fit that minimizes chi2 = sum of (y - ax - b)^2 / (sigy^2 + a^2 sigx^2), i.e. the weighted
+  * distance of each point from the line.  Constant sigmas give Deming regression, and equal constant sigmas give
+  * orthogonal (total least squares) regression; zero x-sigmas reduce to the fit with y-sigmas.  q is the goodness-of-fit
+  * probability with n-2 degrees of freedom.  Invalid inputs result in a fit to a singleton point at the origin.
+  *
+  * Reference: NRC (fitexy); York et al., Am. J. Phys. 72 (2004), whose iteration is used to find the minimum and the
+  * parameter uncertainties
+  */
+  public static fitexy(_x: Array<number>, _y: Array<number>, sigx: Array<number>, sigy: Array<number>): ILLSQResult
+  {
+    const n: number = _x.length;
+
+    if (n < 3 || _y.length != n || !TSMT$LLSQ.__validSigma(sigx, n, true, true) || !TSMT$LLSQ.__validSigma(sigy, n, true)) {
+      return {a: 0, b: 0, siga: 0, sigb: 0, chi2: 0, r: 0, covab: 0, q: 0};
+    }
+
+    const vx: Array<number>   = sigx.map( (v: number): number => {return v*v} );
+    const vy: Array<number>   = sigy.map( (v: number): number => {return v*v} );
+    const w: Array<number>    = new Array<number>();
+    const beta: Array<number> = new Array<number>();
+
+    // start from the fit with y-sigmas alone
+    let slope: number = TSMT$LLSQ.fit(_x, _y, sigy).a;
+    let xbar: number  = 0.0;
+    let ybar: number  = 0.0;
+    let iter: number, i: number, sw: number, u: number, v: number, num: number, den: number, prev: number;
+
+    for (iter = 0; iter < TSMT$LLSQ.MAXIT; ++iter)
+    {
+      sw   = 0.0;
+      xbar = 0.0;
+      ybar = 0.0;
+
+      for (i = 0; i < n; ++i)
+      {
+        w[i] = 1.0/(vy[i] + slope*slope*vx[i]);
+
+        sw   += w[i];
+        xbar += w[i]*_x[i];
+        ybar += w[i]*_y[i];
+      }
+
+      xbar /= sw;
+      ybar /= sw;
+      num   = 0.0;
+      den   = 0.0;
+
+      for (i = 0; i < n; ++i)
+      {
+        u       = _x[i] - xbar;
+        v       = _y[i] - ybar;
+        beta[i] = w[i]*(u*vy[i] + slope*v*vx[i]);
+
+        num += w[i]*beta[i]*v;
+        den += w[i]*beta[i]*u;
+      }
+
+      if (den == 0) {
+        break;
+      }
+
+      prev  = slope;
+      slope = num/den;
+
+      if (Math.abs(slope - prev) <= TSMT$LLSQ.TOL*Math.max(1.0, Math.abs(slope))) {
+        break;
+      }
+    }
+
+    const intercept: number = ybar - slope*xbar;
+
+    // parameter uncertainties from the adjusted x-coordinates, xbar + beta, at the final weights
+    let sw2: number  = 0.0;
+    let xadj: number = 0.0;
+    let suu: number  = 0.0;
+    let chi2: number = 0.0;
+    let s: number    = 0.0;
+    let t: number;
+
+    sw = 0.0;
+    for (i = 0; i < n; ++i)
+    {
+      w[i]    = 1.0/(vy[i] + slope*slope*vx[i]);
+      beta[i] = w[i]*((_x[i] - xbar)*vy[i] + slope*(_y[i] - ybar)*vx[i]);
+
+      sw   += w[i];
+      xadj += w[i]*(xbar + beta[i]);
+    }
+
+    xadj /= sw;
+
+    for (i = 0; i < n; ++i)
+    {
+      u     = xbar + beta[i] - xadj;
+      t     = _y[i] - intercept - slope*_x[i];
+      sw2  += w[i]*u*u;
+      chi2 += w[i]*t*t;
+      s    += w[i]*(_y[i] - ybar)*(_y[i] - ybar);
+    }
+
+    const sigb: number = sw2 > 0 ? Math.sqrt(1.0/sw2) : 0.0;
+    const siga: number = Math.sqrt(1.0/sw + xadj*xadj*sigb*sigb);
+
+    return {
+      a: slope,
+      b: intercept,
+      siga: siga,
+      sigb: sigb,
+      chi2: chi2,
+      r: s > 0 ? 1.0 - chi2/s : 1.0,
+      covab: -xadj*sigb*sigb,
+      q: TSMT$SpecialFunctions.gammq(0.5*(n - 2), 0.5*chi2)
+    };
+  }
+
+ /**
+  * Compute a confidence band for the fit (mean response) or a prediction band for new observations
+  *
+  * @param {Array<number>} _x Array of x-coordinates of the data (must have at least three data points)
+  *
+  * @param {Array<number>} _y Array of y-coordinates of the data (must have at least three data points)
+  *
+  * @param {Array<number>} x x-coordinates at which the band is evaluated
+  *
+  * @param {number} level Confidence level in (0, 1)
+  * @default 0.95
+  *
+  * @param {boolean} prediction True for a prediction band, which includes the scatter of a new observation about the fit
+  * @default false
+  *
+  * @returns {IFitBand} Fit values and interval limits at each x-coordinate; arrays are empty for invalid data.  The
+  * interval half-width is the Student t critical value (n-2 degrees of freedom) times the standard error of the fit
+  * (or of a new observation), computed from the coefficient covariance.
+  */
+  public static band(_x: Array<number>, _y: Array<number>, x: Array<number>, level: number = 0.95, prediction: boolean = false): IFitBand
+  {
+    level = isNaN(level) || level <= 0 || level >= 1 ? 0.95 : level;
+
+    const empty: IFitBand = {x: [], y: [], lower: [], upper: [], level: level};
+
+    if (!_x || !_y || !x || _x.length < 3 || _y.length != _x.length) {
+      return empty;
+    }
+
+    const n: number        = _x.length;
+    const fit: ILLSQResult = TSMT$LLSQ.fit(_x, _y);
+    const s2: number       = fit.chi2 / (n - 2);
+    const tc: number       = TSMT$SpecialFunctions.studentQuantile(level, n - 2);
+    const y: Array<number> = x.map( (v: number): number => {return fit.a*v + fit.b} );
+
+    // variance of b + a*x from the coefficient covariance, plus the residual variance for a new observation (siga and
+    // sigb follow NRC, where they are the uncertainties of the intercept and slope, respectively)
+    const h: Array<number> = x.map( (v: number): number => {
+      const variance: number = fit.siga*fit.siga + 2.0*v*fit.covab + v*v*fit.sigb*fit.sigb + (prediction ? s2 : 0.0);
+
+      return tc * Math.sqrt( Math.max(variance, 0.0) );
+    });
+
+    return {
+      x: x.slice(),
+      y: y,
+      lower: y.map( (v: number, i: number): number => {return v - h[i]} ),
+      upper: y.map( (v: number, i: number): number => {return v + h[i]} ),
+      level: level
+    };
+  }
+
+  // measurement sigmas are optional unless required; each must be positive (or non-negative, if zero is allowed)
+  protected static __validSigma(sig: Array<number>, n: number, required: boolean, zero: boolean = false): boolean
+  {
+    if (sig === undefined || sig == null) {
+      return !required;
+    }
 
-    return {a: b, b: a, siga: siga, sigb: sigb, chi2: chi2, r: r};
+    return sig.length == n && sig.every( (v: number): boolean => {return isFinite(v) && (zero ? v >= 0 : v > 0)} );
   }
 }
@@ -0,0 +1,11 @@
+// bundles the DL training worker (compiled by 'tsc -p src/tsconfig.worker.json') into the application assets
+const path = require('path');
+
+module.exports = {
+  entry: './out-tsc/worker/app/dl-model/dlTraining.worker.js',
+  target: 'webworker',
+  output: {
+    path: path.resolve(__dirname, 'src/assets/workers'),
+    filename: 'dl-training.worker.js'
+  }
+};